@@ -2,9 +2,19 @@ import * as vscode from 'vscode';
 import * as cp from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
-import { getConfig } from './config';
-import { getOllamaClient } from './ollamaClient';
+import { getConfigForRole, LocalCopilotConfig } from './config';
+import { ChatMessage, ChatToolCall, ToolDefinition } from './ollamaClient';
+import { getLLMClient } from './llmProvider';
 import { getMCPManager, MCPTool } from './mcpClient';
+import { logger } from './logger';
+import { budgetPrompt, PromptSection } from './promptBudget';
+import { LLMRequestError } from './httpTransport';
+import { JsonSchema } from './structuredOutput';
+import { getCheckpointManager, TaskCheckpoint } from './checkpoints';
+import { getStagingArea } from './editStaging';
+import { getToolPermissions } from './toolPermissions';
+import { getProtectedPathspecs, isAccessibleToAgent, resolveDeletablePath, resolveToolPath } from './pathSandbox';
+import { formatCommandResult, getAgentTerminal } from './agentTerminal';
 
 // Terminal history for context
 interface TerminalCommand {
@@ -18,6 +28,15 @@ interface TerminalCommand {
 const terminalHistory: TerminalCommand[] = [];
 const MAX_TERMINAL_HISTORY = 10;
 
+// Appended to the result of every staged edit
+const STAGED_NOTE = 'Your later reads see the change, but it only reaches the disk - and commands you run - once the user accepts it.';
+
+// Room left in the context window for each agent reply
+const AGENT_RESPONSE_TOKENS = 2048;
+
+// A part of the agent prompt; sections without a message only take up room
+type AgentSection = PromptSection & { message?: ChatMessage };
+
 // Tool definitions that the AI can call
 export interface AgentTool {
     name: string;
@@ -29,6 +48,19 @@ export interface AgentTool {
 export interface ToolCall {
     name: string;
     parameters: Record<string, string>;
+    arguments?: Record<string, unknown>; // Untouched arguments from the model
+}
+
+// A model turn: its text plus any tool calls it made
+interface AgentResponse {
+    content: string;
+    toolCalls: ToolCall[];
+}
+
+// A turn from a model without tool support, as JSON following getTurnSchema()
+interface JsonTurn {
+    message: string;
+    tool?: { name: string; parameters: Record<string, unknown> };
 }
 
 export interface ToolResult {
@@ -43,16 +75,21 @@ export interface AgentStep {
     toolName?: string;
     toolParams?: Record<string, string>;
     result?: ToolResult;
+    sessionAllowLabel?: string; // What "allow for this session" on an approval covers
+    permissionReason?: string; // Why the tool permission policy asks for approval
     timestamp: Date;
 }
 
+// How the user answered an approval request
+type ApprovalChoice = 'once' | 'session' | 'deny';
+
 export type AgentEventCallback = (step: AgentStep) => void;
 
 // Available tools for the agent
 const AGENT_TOOLS: AgentTool[] = [
     {
         name: 'runCommand',
-        description: 'Execute a terminal command in the workspace. Use for running scripts, installing packages, or executing any shell command.',
+        description: 'Execute a terminal command in the workspace and get its exit code and output. Use for running scripts, installing packages, or executing any shell command. Commands get no input and are stopped after a timeout, so avoid interactive prompts, servers and watch modes.',
         parameters: {
             command: { type: 'string', description: 'The command to execute', required: true },
         },
@@ -165,13 +202,15 @@ const AGENT_TOOLS: AgentTool[] = [
 export class AgentProvider {
     private isRunning: boolean = false;
     private abortController: AbortController | null = null;
-    private conversationHistory: Array<{ role: 'user' | 'assistant' | 'system'; content: string }> = [];
+    private conversationHistory: ChatMessage[] = [];
     private eventCallback: AgentEventCallback | null = null;
     private lastFailedToolCall: string | null = null;
     private consecutiveFailures: number = 0;
+    private useNativeTools: boolean = false;
+    private checkpoint: TaskCheckpoint | null = null; // Files the running task changed
 
     // Approval mechanism
-    private pendingApprovalResolve: ((allowed: boolean) => void) | null = null;
+    private pendingApprovalResolve: ((choice: ApprovalChoice) => void) | null = null;
     private isWaitingForApproval: boolean = false;
 
     constructor() { }
@@ -180,9 +219,13 @@ export class AgentProvider {
         this.eventCallback = callback;
     }
 
-    approveRequest(): void {
+    /**
+     * Approve the pending tool call; `forSession` stops asking for the same
+     * command or tool until VS Code restarts
+     */
+    approveRequest(forSession: boolean = false): void {
         if (this.pendingApprovalResolve) {
-            this.pendingApprovalResolve(true);
+            this.pendingApprovalResolve(forSession ? 'session' : 'once');
             this.pendingApprovalResolve = null;
             this.isWaitingForApproval = false;
         }
@@ -190,7 +233,7 @@ export class AgentProvider {
 
     rejectRequest(): void {
         if (this.pendingApprovalResolve) {
-            this.pendingApprovalResolve(false);
+            this.pendingApprovalResolve('deny');
             this.pendingApprovalResolve = null;
             this.isWaitingForApproval = false;
         }
@@ -273,7 +316,11 @@ export class AgentProvider {
         this.conversationHistory = [];
     }
 
-    async runTask(task: string): Promise<string> {
+    /**
+     * Run a task to completion. `title` names the task in its checkpoint,
+     * when `task` carries gathered context as well.
+     */
+    async runTask(task: string, title: string = task): Promise<string> {
         if (this.isRunning) {
             throw new Error('Agent is already running a task');
         }
@@ -289,7 +336,16 @@ export class AgentProvider {
             throw new Error('No workspace folder open');
         }
 
+        // Snapshot every file before the task first changes it, for rollback
+        this.checkpoint = getCheckpointManager().beginTask(title, workspaceFolder);
+
         try {
+            // Prefer native tool calls; models without tool support reply
+            // with JSON steps that name the tool instead
+            const config = getConfigForRole('agent');
+            this.useNativeTools = await getLLMClient(config).supportsTools(config.model);
+            logger.debug(`Agent using ${this.useNativeTools ? 'native' : 'JSON'} tool calls for ${config.model}`);
+
             // Build the system prompt with tool definitions
             const systemPrompt = this.buildSystemPrompt();
 
@@ -330,76 +386,39 @@ export class AgentProvider {
                     break;
                 }
 
-                // Parse the response for tool calls
-                const toolCall = this.parseToolCall(response);
-
-                if (toolCall) {
-                    // Check for repeated failed tool calls (prevents infinite loops)
-                    const toolCallKey = `${toolCall.name}:${JSON.stringify(toolCall.parameters)}`;
-                    if (toolCallKey === this.lastFailedToolCall) {
-                        this.consecutiveFailures++;
-                        if (this.consecutiveFailures >= 2) {
-                            this.emitStep({
-                                type: 'response',
-                                content: `⚠️ Stopping: The same action failed ${this.consecutiveFailures} times. Please try a different approach or check if the command is valid.`,
-                                timestamp: new Date(),
-                            });
-                            this.lastFailedToolCall = null;
-                            this.consecutiveFailures = 0;
-                            break;
-                        }
-                    }
-
-                    this.emitStep({
-                        type: 'tool_call',
-                        content: `Calling tool: ${toolCall.name}`,
-                        toolName: toolCall.name,
-                        toolParams: toolCall.parameters,
-                        timestamp: new Date(),
-                    });
-
-                    // Execute the tool
-                    const result = await this.executeTool(toolCall, workspaceFolder);
-
-                    // Track failures to prevent loops
-                    if (!result.success) {
-                        this.lastFailedToolCall = toolCallKey;
-                        this.consecutiveFailures++;
+                if (response.toolCalls.length > 0) {
+                    // Record the model's turn before the results
+                    if (this.useNativeTools) {
+                        this.conversationHistory.push({
+                            role: 'assistant',
+                            content: response.content,
+                            tool_calls: response.toolCalls.map(call => ({
+                                function: { name: call.name, arguments: call.arguments ?? call.parameters },
+                            })),
+                        });
                     } else {
-                        this.lastFailedToolCall = null;
-                        this.consecutiveFailures = 0;
+                        const [call] = response.toolCalls;
+                        const turn: JsonTurn = {
+                            message: response.content,
+                            tool: { name: call.name, parameters: call.arguments ?? call.parameters },
+                        };
+                        this.conversationHistory.push({ role: 'assistant', content: JSON.stringify(turn) });
                     }
 
-                    this.emitStep({
-                        type: 'tool_result',
-                        content: result.output,
-                        toolName: toolCall.name,
-                        result: result,
-                        timestamp: new Date(),
-                    });
-
-                    // Add tool call and result to history
-                    this.conversationHistory.push({
-                        role: 'assistant',
-                        content: `[TOOL_CALL: ${toolCall.name}]\n${JSON.stringify(toolCall.parameters)}`
-                    });
-                    
-                    // Give clearer feedback on errors
-                    let resultMessage: string;
-                    if (result.success) {
-                        resultMessage = result.output || 'Command completed successfully.';
-                    } else {
-                        resultMessage = `❌ FAILED: ${result.error}\n\nYou need to fix this issue before continuing. Think about what prerequisite might be missing.`;
+                    let stopped = false;
+                    for (const toolCall of response.toolCalls) {
+                        if (!this.isRunning || !(await this.handleToolCall(toolCall, workspaceFolder))) {
+                            stopped = true;
+                            break;
+                        }
+                    }
+                    if (stopped) {
+                        break;
                     }
-                    
-                    this.conversationHistory.push({
-                        role: 'system',
-                        content: `[TOOL_RESULT]\n${resultMessage}`
-                    });
                 } else {
                     // No tool call found in response
                     // Check if this looks like an incomplete response (planning text)
-                    const looksIncomplete = this.looksLikeIncompleteResponse(response);
+                    const looksIncomplete = this.looksLikeIncompleteResponse(response.content);
                     
                     if (looksIncomplete && nudgeCount < maxNudges) {
                         // Model is outputting planning text instead of using tools
@@ -407,18 +426,20 @@ export class AgentProvider {
                         nudgeCount++;
                         this.conversationHistory.push({
                             role: 'assistant',
-                            content: response
+                            content: this.useNativeTools ? response.content : JSON.stringify({ message: response.content })
                         });
                         this.conversationHistory.push({
                             role: 'system',
-                            content: 'You must use a tool now. Output ONLY a tool call in this exact format:\n```tool\n{"name": "toolName", "parameters": {...}}\n```\nIf the task is complete, just say "Done" with a brief summary.'
+                            content: this.useNativeTools
+                                ? 'You must call a tool now. If the task is complete, just say "Done" with a brief summary.'
+                                : 'You must use a tool now: reply with {"message": "...", "tool": {"name": "toolName", "parameters": {...}}}. If the task is complete, leave out "tool" and put a brief summary in "message".'
                         });
                         continue; // Try again
                     }
                     
                     // This is the final response
                     // Clean up any raw tool markers the model might include
-                    finalResponse = this.cleanFinalResponse(response);
+                    finalResponse = this.cleanFinalResponse(response.content);
                     this.conversationHistory.push({ role: 'assistant', content: finalResponse });
 
                     this.emitStep({
@@ -438,9 +459,84 @@ export class AgentProvider {
         } finally {
             this.isRunning = false;
             this.abortController = null;
+            this.checkpoint = null;
         }
     }
 
+    /**
+     * Execute one tool call and record its result in the history.
+     * Returns false when the agent should stop because the same call keeps failing.
+     */
+    private async handleToolCall(toolCall: ToolCall, workspaceFolder: string): Promise<boolean> {
+        // Check for repeated failed tool calls (prevents infinite loops)
+        const toolCallKey = `${toolCall.name}:${JSON.stringify(toolCall.parameters)}`;
+        if (toolCallKey === this.lastFailedToolCall) {
+            this.consecutiveFailures++;
+            if (this.consecutiveFailures >= 2) {
+                this.emitStep({
+                    type: 'response',
+                    content: `⚠️ Stopping: The same action failed ${this.consecutiveFailures} times. Please try a different approach or check if the command is valid.`,
+                    timestamp: new Date(),
+                });
+                this.lastFailedToolCall = null;
+                this.consecutiveFailures = 0;
+                return false;
+            }
+        }
+
+        this.emitStep({
+            type: 'tool_call',
+            content: `Calling tool: ${toolCall.name}`,
+            toolName: toolCall.name,
+            toolParams: toolCall.parameters,
+            timestamp: new Date(),
+        });
+
+        // Execute the tool
+        const result = await this.executeTool(toolCall, workspaceFolder);
+
+        // Track failures to prevent loops
+        if (!result.success) {
+            this.lastFailedToolCall = toolCallKey;
+            this.consecutiveFailures++;
+        } else {
+            this.lastFailedToolCall = null;
+            this.consecutiveFailures = 0;
+        }
+
+        this.emitStep({
+            type: 'tool_result',
+            content: result.output,
+            toolName: toolCall.name,
+            result: result,
+            timestamp: new Date(),
+        });
+
+        // Give clearer feedback on errors
+        let resultMessage: string;
+        if (result.success) {
+            resultMessage = result.output || 'Command completed successfully.';
+        } else {
+            resultMessage = `❌ FAILED: ${result.error}\n\nYou need to fix this issue before continuing. Think about what prerequisite might be missing.`;
+        }
+
+        // Add tool call and result to history
+        if (this.useNativeTools) {
+            this.conversationHistory.push({
+                role: 'tool',
+                content: resultMessage,
+                tool_name: toolCall.name,
+            });
+        } else {
+            this.conversationHistory.push({
+                role: 'system',
+                content: `[TOOL_RESULT]\n${resultMessage}`
+            });
+        }
+
+        return true;
+    }
+
     private getAllTools(): AgentTool[] {
         // Start with built-in tools
         const tools: AgentTool[] = [...AGENT_TOOLS];
@@ -473,6 +569,32 @@ export class AgentProvider {
         return tools;
     }
 
+    /**
+     * Convert tool definitions to the JSON-schema form used by /api/chat
+     */
+    private getToolDefinitions(): ToolDefinition[] {
+        return this.getAllTools().map(tool => {
+            const properties: Record<string, { type: string; description?: string }> = {};
+            const required: string[] = [];
+
+            for (const [name, info] of Object.entries(tool.parameters)) {
+                properties[name] = { type: info.type, description: info.description };
+                if (info.required) {
+                    required.push(name);
+                }
+            }
+
+            return {
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: { type: 'object', properties, required },
+                },
+            };
+        });
+    }
+
     private buildSystemPrompt(): string {
         const allTools = this.getAllTools();
         const toolDescriptions = allTools.map(tool => {
@@ -489,82 +611,210 @@ export class AgentProvider {
             ? `\n\nCONNECTED MCP SERVERS: ${mcpServers.map(s => s.name).join(', ')}`
             : '';
 
+        const rules = `CRITICAL RULES:
+1. ALWAYS use a tool when asked to do something. Never just describe or plan - USE THE TOOL.
+2. Use ONE tool per response. Output the tool call and NOTHING ELSE.
+3. After getting a tool result, immediately use the NEXT tool needed, or summarize if done.
+4. Keep going until the ENTIRE task is complete. Don't stop after one step.
+5. When fully done, give a SHORT summary (1-2 sentences). No headers like "##" or "Next Step".
+6. READ THE CONTEXT CAREFULLY. If it says "NOT a git repository", run "git init" first!
+7. If a command fails, understand WHY and fix the prerequisite first.
+
+You are in a loop. Each response should be EITHER a tool call OR a final summary. Nothing else.`;
+
+        // With native tool calling the definitions travel as JSON schema,
+        // so the prompt only needs the behavioural rules
+        if (this.useNativeTools) {
+            return `You are Rubin, an AI coding agent. You MUST call the provided tools to complete tasks. You cannot just talk - you must take action.${mcpInfo}
+
+Commands run in the workspace root. NEVER use 'cd'.
+
+${rules}
+
+START NOW - call a tool immediately.`;
+        }
+
         return `You are Rubin, an AI coding agent. You MUST use tools to complete tasks. You cannot just talk - you must take action.
 
 AVAILABLE TOOLS:
 ${toolDescriptions}${mcpInfo}
 
-HOW TO USE A TOOL:
-When you need to perform an action, output EXACTLY this format:
+HOW TO REPLY:
+Every reply is a JSON object. To perform an action, name the tool in "tool":
 
-\`\`\`tool
-{"name": "TOOL_NAME", "parameters": {"param": "value"}}
-\`\`\`
+{"message": "Short note on what you are doing", "tool": {"name": "TOOL_NAME", "parameters": {"param": "value"}}}
+
+When the task is complete, leave out "tool" and put the summary in "message".
 
 EXAMPLES:
 
 To create a file:
-\`\`\`tool
-{"name": "writeFile", "parameters": {"filePath": "hello.ts", "content": "export const hello = () => 'Hello World';"}}
-\`\`\`
+{"message": "Creating hello.ts", "tool": {"name": "writeFile", "parameters": {"filePath": "hello.ts", "content": "export const hello = () => 'Hello World';"}}}
 
 To run a command (executes in workspace root):
-\`\`\`tool
-{"name": "runCommand", "parameters": {"command": "npm install"}}
-\`\`\`
+{"message": "Installing dependencies", "tool": {"name": "runCommand", "parameters": {"command": "npm install"}}}
 (NEVER use 'cd'. You are already in the workspace root.)
 
 To read a file:
-\`\`\`tool
-{"name": "readFile", "parameters": {"filePath": "package.json"}}
-\`\`\`
-
-CRITICAL RULES:
-1. ALWAYS use a tool when asked to do something. Never just describe or plan - USE THE TOOL.
-2. Use ONE tool per response. Output the tool call and NOTHING ELSE.
-3. After getting a tool result, immediately use the NEXT tool needed, or summarize if done.
-4. Keep going until the ENTIRE task is complete. Don't stop after one step.
-5. When fully done, give a SHORT summary (1-2 sentences). No headers like "##" or "Next Step".
-6. READ THE CONTEXT CAREFULLY. If it says "NOT a git repository", run "git init" first!
-7. If a command fails, understand WHY and fix the prerequisite first.
+{"message": "Reading package.json", "tool": {"name": "readFile", "parameters": {"filePath": "package.json"}}}
 
-You are in a loop. Each response should be EITHER a tool call OR a final summary. Nothing else.
+${rules}
 
 START NOW - use a tool immediately.`;
     }
 
-    private async generateResponse(systemPrompt: string): Promise<string | null> {
-        const config = getConfig();
-        const client = getOllamaClient(config.serverUrl);
+    /**
+     * Fit the conversation into the agent model's context window. The task and
+     * the latest message are always sent; the turns in between are kept newest
+     * first while they fit.
+     */
+    private async buildMessages(
+        systemPrompt: string,
+        tools: ToolDefinition[],
+        config: LocalCopilotConfig
+    ): Promise<{ messages: ChatMessage[]; numCtx: number }> {
+        const history = this.conversationHistory;
+        const sections: AgentSection[] = [
+            {
+                label: 'System prompt',
+                content: systemPrompt,
+                priority: 100,
+                required: true,
+                message: { role: 'system', content: systemPrompt },
+            },
+        ];
+        if (tools.length > 0) {
+            // Tool definitions take up room in the window but are sent separately
+            sections.push({ label: 'Tool definitions', content: JSON.stringify(tools), priority: 100, required: true });
+        }
+
+        history.forEach((message, index) => {
+            const age = history.length - 1 - index;
+            sections.push({
+                label: index === 0 ? 'Task' : `${message.role} message (${age + 1} back)`,
+                content: message.content,
+                priority: index === 0 ? 95 : 80 - age,
+                required: age === 0,
+                truncatable: index === 0,
+                group: index === 0 ? undefined : 'history',
+                message,
+            });
+        });
 
-        // Build the full prompt
-        let prompt = systemPrompt + '\n\n';
+        const budgeted = await budgetPrompt(sections, config, AGENT_RESPONSE_TOKENS);
+        return {
+            messages: budgeted.sections.flatMap(section =>
+                section.message ? [{ ...section.message, content: section.content }] : []
+            ),
+            numCtx: budgeted.numCtx,
+        };
+    }
 
-        for (const msg of this.conversationHistory.slice(-10)) { // Keep last 10 messages
-            if (msg.role === 'user') {
-                prompt += `User: ${msg.content}\n\n`;
-            } else if (msg.role === 'assistant') {
-                prompt += `Assistant: ${msg.content}\n\n`;
-            } else if (msg.role === 'system') {
-                prompt += `System: ${msg.content}\n\n`;
-            }
-        }
+    private async generateResponse(systemPrompt: string): Promise<AgentResponse | null> {
+        const config = getConfigForRole('agent');
+        const client = getLLMClient(config);
 
-        prompt += 'Assistant:';
+        const tools = this.useNativeTools ? this.getToolDefinitions() : [];
+        const { messages, numCtx } = await this.buildMessages(systemPrompt, tools, config);
+        const options = {
+            num_ctx: numCtx,
+            num_predict: AGENT_RESPONSE_TOKENS, // More tokens for agent responses
+            temperature: 0.3, // More focused responses
+        };
 
         try {
-            const response = await client.generateChat(prompt, {
-                ...config,
-                maxTokens: 2048, // More tokens for agent responses
-                temperature: 0.3, // More focused responses
-            });
-            return response;
+            if (this.useNativeTools) {
+                const message = await client.chatWithTools(
+                    messages,
+                    tools,
+                    config,
+                    options,
+                    this.abortController?.signal
+                );
+                if (!message) {
+                    return null;
+                }
+
+                return {
+                    content: message.content?.trim() || '',
+                    toolCalls: (message.tool_calls || []).map(call => this.fromNativeToolCall(call)),
+                };
+            }
+
+            const turn = await client.chatJson<JsonTurn>(
+                messages,
+                this.getTurnSchema(),
+                config,
+                options,
+                this.abortController?.signal
+            );
+            if (!turn) {
+                return null;
+            }
+
+            return {
+                content: turn.message.trim(),
+                toolCalls: turn.tool ? [this.toToolCall(turn.tool.name, turn.tool.parameters)] : [],
+            };
         } catch (error) {
-            console.error('Agent generation error:', error);
+            // Server failures end the task with their explanation
+            if (error instanceof LLMRequestError) {
+                throw error;
+            }
+            logger.error('Agent generation error', error);
             return null;
         }
     }
 
+    /**
+     * Schema for the JSON replies of models without native tool support
+     */
+    private getTurnSchema(): JsonSchema {
+        return {
+            type: 'object',
+            properties: {
+                message: { type: 'string', description: 'What you are doing, or the summary when done' },
+                tool: {
+                    type: 'object',
+                    properties: {
+                        name: { type: 'string', enum: this.getAllTools().map(tool => tool.name) },
+                        parameters: { type: 'object' },
+                    },
+                    required: ['name', 'parameters'],
+                },
+            },
+            required: ['message'],
+        };
+    }
+
+    /**
+     * Convert a structured tool call from the model into our ToolCall shape
+     */
+    private fromNativeToolCall(call: ChatToolCall): ToolCall {
+        let args: Record<string, unknown> = {};
+        if (typeof call.function.arguments === 'string') {
+            try {
+                args = JSON.parse(call.function.arguments);
+            } catch {
+                args = {};
+            }
+        } else if (call.function.arguments) {
+            args = call.function.arguments;
+        }
+        return this.toToolCall(call.function.name, args);
+    }
+
+    /**
+     * Built-in tools take string parameters; the raw arguments are kept for MCP tools
+     */
+    private toToolCall(name: string, args: Record<string, unknown>): ToolCall {
+        const parameters: Record<string, string> = {};
+        for (const [key, value] of Object.entries(args)) {
+            parameters[key] = typeof value === 'string' ? value : JSON.stringify(value);
+        }
+        return { name, parameters, arguments: args };
+    }
+
     private cleanFinalResponse(response: string): string {
         let cleaned = response;
 
@@ -634,100 +884,59 @@ START NOW - use a tool immediately.`;
         return false;
     }
 
-    private parseToolCall(response: string): ToolCall | null {
-        // Try multiple formats since different models output differently
-
-        // 1. Try ```tool wrapped format
-        const toolMatch = response.match(/```tool\s*\n?([\s\S]*?)\n?```/);
-        if (toolMatch) {
-            try {
-                const toolJson = JSON.parse(toolMatch[1].trim());
-                if (toolJson.name && typeof toolJson.name === 'string') {
-                    return {
-                        name: toolJson.name,
-                        parameters: toolJson.parameters || {},
-                    };
-                }
-            } catch (e) {
-                console.error('Failed to parse wrapped tool call:', e);
-            }
-        }
-
-        // 2. Try raw JSON format (model outputs JSON directly)
-        const jsonMatch = response.match(/\{"name":\s*"(\w+)",\s*"parameters":\s*(\{[^}]+\})\}/);
-        if (jsonMatch) {
+    private async executeTool(toolCall: ToolCall, workspaceFolder: string): Promise<ToolResult> {
+        // Paths the tool may not touch are rejected before anyone is asked about them
+        const toolPath = toolCall.parameters.filePath ?? toolCall.parameters.dirPath;
+        if (toolPath && !toolCall.name.startsWith('mcp_')) {
             try {
-                const fullMatch = jsonMatch[0];
-                const toolJson = JSON.parse(fullMatch);
-                if (toolJson.name && typeof toolJson.name === 'string') {
-                    return {
-                        name: toolJson.name,
-                        parameters: toolJson.parameters || {},
-                    };
+                if (toolCall.name === 'deleteFile') {
+                    resolveDeletablePath(toolPath, workspaceFolder);
+                } else {
+                    resolveToolPath(toolPath, workspaceFolder);
                 }
-            } catch (e) {
-                console.error('Failed to parse raw JSON tool call:', e);
+            } catch (error) {
+                return { success: false, output: '', error: error instanceof Error ? error.message : 'Unknown error' };
             }
         }
 
-        // 3. Try to find any valid JSON object with name and parameters
-        const anyJsonMatch = response.match(/\{[\s\S]*?"name"[\s\S]*?"parameters"[\s\S]*?\}/);
-        if (anyJsonMatch) {
-            try {
-                // Clean up any trailing garbage (like </start_of_turn>)
-                let jsonStr = anyJsonMatch[0];
-                // Find the matching closing brace
-                let braceCount = 0;
-                let endIndex = 0;
-                for (let i = 0; i < jsonStr.length; i++) {
-                    if (jsonStr[i] === '{') {
-                        braceCount++;
-                    }
-                    if (jsonStr[i] === '}') {
-                        braceCount--;
-                    }
-                    if (braceCount === 0) {
-                        endIndex = i + 1;
-                        break;
-                    }
-                }
-                jsonStr = jsonStr.substring(0, endIndex);
-
-                const toolJson = JSON.parse(jsonStr);
-                if (toolJson.name && typeof toolJson.name === 'string') {
-                    return {
-                        name: toolJson.name,
-                        parameters: toolJson.parameters || {},
-                    };
-                }
-            } catch (e) {
-                console.error('Failed to parse any JSON tool call:', e);
-            }
+        const permission = getToolPermissions().decide(
+            toolCall.name,
+            toolCall.parameters,
+            workspaceFolder,
+            this.stagesEdits()
+        );
+        if (permission.mode === 'deny') {
+            logger.info(`Blocked ${toolCall.name}: ${permission.reason}`);
+            return {
+                success: false,
+                output: '',
+                error: `Blocked by the tool permission policy (${permission.reason}). Do not retry it; find another way or ask the user.`
+            };
         }
 
-        return null;
-    }
-
-    private async executeTool(toolCall: ToolCall, workspaceFolder: string): Promise<ToolResult> {
-        // Sensitive tools require approval
-        if (toolCall.name === 'runCommand' || toolCall.name === 'writeFile' || toolCall.name === 'editFile' || toolCall.name === 'deleteFile' || toolCall.name === 'insertCode') {
+        if (permission.mode === 'ask') {
             this.isWaitingForApproval = true;
             this.emitStep({
                 type: 'approval_requested',
-                content: `Requesting approval to use ${toolCall.name}`,
+                content: `Requesting approval to use ${toolCall.name} (${permission.reason})`,
                 toolName: toolCall.name,
                 toolParams: toolCall.parameters,
+                sessionAllowLabel: permission.sessionLabel,
+                permissionReason: permission.reason,
                 timestamp: new Date()
             });
 
             // Wait for approval
-            const allowed = await new Promise<boolean>((resolve) => {
+            const choice = await new Promise<ApprovalChoice>((resolve) => {
                 this.pendingApprovalResolve = resolve;
             });
 
-            if (!allowed) {
+            if (choice === 'deny') {
                 return { success: false, output: '', error: 'User denied the action.' };
             }
+            if (choice === 'session' && permission.sessionKey) {
+                getToolPermissions().allowForSession(permission.sessionKey);
+            }
         }
 
         switch (toolCall.name) {
@@ -806,7 +1015,7 @@ START NOW - use a tool immediately.`;
             const toolName = parts.slice(2).join('_'); // Handle tool names with underscores
             
             const mcpManager = getMCPManager();
-            const result = await mcpManager.callTool(serverName, toolName, toolCall.parameters);
+            const result = await mcpManager.callTool(serverName, toolName, toolCall.arguments ?? toolCall.parameters);
             
             // Format the result
             let output = '';
@@ -836,52 +1045,39 @@ START NOW - use a tool immediately.`;
     }
 
     private async executeRunCommand(command: string, cwd: string): Promise<ToolResult> {
-        return new Promise((resolve) => {
-            // Create or reuse a visible terminal for agent commands
-            let terminal = vscode.window.terminals.find(t => t.name === 'Rubin Agent');
-            if (!terminal) {
-                terminal = vscode.window.createTerminal({
-                    name: 'Rubin Agent',
-                    cwd: cwd
-                });
-            }
-            
-            // Show the terminal so user can see what's happening
-            terminal.show(true);
-            
-            // Add a visual marker in terminal
-            terminal.sendText(`echo "🤖 Rubin executing: ${command.replace(/"/g, '\\"')}"`);
-            terminal.sendText(command);
-            
-            // Run the command in the background to capture output
-            const timeout = 30000; // 30 second timeout
-
-            cp.exec(command, { cwd, timeout, maxBuffer: 1024 * 1024 }, (error, stdout, stderr) => {
-                const result: ToolResult = error ? {
-                    success: false,
-                    output: stdout || '',
-                    error: stderr || error.message,
-                } : {
-                    success: true,
-                    output: stdout + (stderr ? `\nStderr: ${stderr}` : ''),
-                };
-                
-                // Store in terminal history
-                terminalHistory.push({
-                    command,
-                    output: result.output || result.error || '',
-                    success: result.success,
-                    timestamp: new Date(),
-                });
-                
-                // Keep history limited
-                while (terminalHistory.length > MAX_TERMINAL_HISTORY) {
-                    terminalHistory.shift();
-                }
-                
-                resolve(result);
-            });
+        const config = getConfigForRole('agent');
+        // Runs once, in the Rubin Agent terminal; stop() cancels it
+        const commandResult = await getAgentTerminal().run(
+            command,
+            cwd,
+            {
+                timeoutMs: config.agentCommandTimeoutSeconds * 1000,
+                maxOutputChars: config.agentCommandMaxOutput,
+            },
+            this.abortController?.signal
+        );
+
+        const report = formatCommandResult(command, commandResult);
+        const success = commandResult.exitCode === 0;
+        // Failures only pass `error` on to the model, so it carries the output too
+        const result: ToolResult = success
+            ? { success, output: report }
+            : { success, output: report, error: report };
+
+        // Store in terminal history
+        terminalHistory.push({
+            command,
+            output: report,
+            success,
+            timestamp: new Date(),
         });
+
+        // Keep history limited
+        while (terminalHistory.length > MAX_TERMINAL_HISTORY) {
+            terminalHistory.shift();
+        }
+
+        return result;
     }
 
     private executeGetTerminalHistory(): ToolResult {
@@ -908,20 +1104,34 @@ START NOW - use a tool immediately.`;
         return { success: true, output };
     }
 
+    private stagesEdits(): boolean {
+        return getConfigForRole('agent').stageAgentEdits;
+    }
+
+    /**
+     * A file as the agent left it: its staged proposal if there is one,
+     * otherwise the disk. Null when it exists in neither.
+     */
+    private readWorkspaceFile(fullPath: string): string | null {
+        const staged = getStagingArea().read(fullPath);
+        if (staged !== undefined) {
+            return staged;
+        }
+        if (!fs.existsSync(fullPath) || fs.statSync(fullPath).isDirectory()) {
+            return null;
+        }
+        return fs.readFileSync(fullPath, 'utf-8');
+    }
+
     private async executeReadFile(filePath: string, workspaceFolder: string): Promise<ToolResult> {
         try {
-            const fullPath = path.join(workspaceFolder, filePath);
-
-            // Security check: ensure path is within workspace
-            if (!fullPath.startsWith(workspaceFolder)) {
-                return { success: false, output: '', error: 'Path is outside workspace' };
-            }
+            const fullPath = resolveToolPath(filePath, workspaceFolder);
 
-            if (!fs.existsSync(fullPath)) {
+            const content = this.readWorkspaceFile(fullPath);
+            if (content === null) {
                 return { success: false, output: '', error: 'File does not exist' };
             }
 
-            const content = fs.readFileSync(fullPath, 'utf-8');
             return { success: true, output: content };
         } catch (error) {
             return {
@@ -938,13 +1148,15 @@ START NOW - use a tool immediately.`;
         workspaceFolder: string
     ): Promise<ToolResult> {
         try {
-            const fullPath = path.join(workspaceFolder, filePath);
+            const fullPath = resolveToolPath(filePath, workspaceFolder);
 
-            // Security check
-            if (!fullPath.startsWith(workspaceFolder)) {
-                return { success: false, output: '', error: 'Path is outside workspace' };
+            if (this.stagesEdits()) {
+                getStagingArea().stage(fullPath, content, this.checkpoint);
+                return { success: true, output: `Staged ${filePath} for the user to review. ${STAGED_NOTE}` };
             }
 
+            this.checkpoint?.capture(fullPath);
+
             // Create directory if needed
             const dir = path.dirname(fullPath);
             if (!fs.existsSync(dir)) {
@@ -970,7 +1182,9 @@ START NOW - use a tool immediately.`;
     private async executeSearchFiles(pattern: string, workspaceFolder: string): Promise<ToolResult> {
         try {
             const files = await vscode.workspace.findFiles(pattern, '**/node_modules/**', 50);
-            const relativePaths = files.map(f => path.relative(workspaceFolder, f.fsPath));
+            const relativePaths = files
+                .filter(f => isAccessibleToAgent(f.fsPath, workspaceFolder))
+                .map(f => path.relative(workspaceFolder, f.fsPath));
 
             if (relativePaths.length === 0) {
                 return { success: true, output: 'No files found matching the pattern.' };
@@ -991,11 +1205,7 @@ START NOW - use a tool immediately.`;
 
     private async executeListDirectory(dirPath: string, workspaceFolder: string): Promise<ToolResult> {
         try {
-            const fullPath = path.join(workspaceFolder, dirPath);
-
-            if (!fullPath.startsWith(workspaceFolder)) {
-                return { success: false, output: '', error: 'Path is outside workspace' };
-            }
+            const fullPath = resolveToolPath(dirPath, workspaceFolder);
 
             if (!fs.existsSync(fullPath)) {
                 return { success: false, output: '', error: 'Directory does not exist' };
@@ -1028,17 +1238,13 @@ START NOW - use a tool immediately.`;
         workspaceFolder: string
     ): Promise<ToolResult> {
         try {
-            const fullPath = path.join(workspaceFolder, filePath);
-
-            if (!fullPath.startsWith(workspaceFolder)) {
-                return { success: false, output: '', error: 'Path is outside workspace' };
-            }
+            const fullPath = resolveToolPath(filePath, workspaceFolder);
 
-            if (!fs.existsSync(fullPath)) {
+            const content = this.readWorkspaceFile(fullPath);
+            if (content === null) {
                 return { success: false, output: '', error: 'File does not exist' };
             }
 
-            const content = fs.readFileSync(fullPath, 'utf-8');
             const lines = content.split('\n');
 
             if (startLine < 1 || endLine > lines.length || startLine > endLine) {
@@ -1049,6 +1255,12 @@ START NOW - use a tool immediately.`;
             const newLines = newContent.split('\n');
             lines.splice(startLine - 1, endLine - startLine + 1, ...newLines);
 
+            if (this.stagesEdits()) {
+                getStagingArea().stage(fullPath, lines.join('\n'), this.checkpoint);
+                return { success: true, output: `Staged an edit of lines ${startLine}-${endLine} in ${filePath} for review. ${STAGED_NOTE}` };
+            }
+
+            this.checkpoint?.capture(fullPath);
             fs.writeFileSync(fullPath, lines.join('\n'), 'utf-8');
 
             // Open the file at the edited location
@@ -1072,17 +1284,13 @@ START NOW - use a tool immediately.`;
         workspaceFolder: string
     ): Promise<ToolResult> {
         try {
-            const fullPath = path.join(workspaceFolder, filePath);
+            const fullPath = resolveToolPath(filePath, workspaceFolder);
 
-            if (!fullPath.startsWith(workspaceFolder)) {
-                return { success: false, output: '', error: 'Path is outside workspace' };
-            }
-
-            if (!fs.existsSync(fullPath)) {
+            const fileContent = this.readWorkspaceFile(fullPath);
+            if (fileContent === null) {
                 return { success: false, output: '', error: 'File does not exist' };
             }
 
-            const fileContent = fs.readFileSync(fullPath, 'utf-8');
             const lines = fileContent.split('\n');
 
             if (lineNumber < 1 || lineNumber > lines.length + 1) {
@@ -1093,6 +1301,12 @@ START NOW - use a tool immediately.`;
             const newLines = content.split('\n');
             lines.splice(lineNumber - 1, 0, ...newLines);
 
+            if (this.stagesEdits()) {
+                getStagingArea().stage(fullPath, lines.join('\n'), this.checkpoint);
+                return { success: true, output: `Staged ${newLines.length} lines for insertion at line ${lineNumber} in ${filePath} for review. ${STAGED_NOTE}` };
+            }
+
+            this.checkpoint?.capture(fullPath);
             fs.writeFileSync(fullPath, lines.join('\n'), 'utf-8');
 
             const doc = await vscode.workspace.openTextDocument(fullPath);
@@ -1122,6 +1336,7 @@ START NOW - use a tool immediately.`;
 
             for (const file of files) {
                 if (results.length >= maxTotalResults) { break; }
+                if (!isAccessibleToAgent(file.fsPath, workspaceFolder)) { continue; }
 
                 try {
                     const content = fs.readFileSync(file.fsPath, 'utf-8');
@@ -1159,7 +1374,7 @@ START NOW - use a tool immediately.`;
 
     private async executeGetSymbols(filePath: string, workspaceFolder: string): Promise<ToolResult> {
         try {
-            const fullPath = path.join(workspaceFolder, filePath);
+            const fullPath = resolveToolPath(filePath, workspaceFolder);
             const uri = vscode.Uri.file(fullPath);
 
             const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
@@ -1199,7 +1414,7 @@ START NOW - use a tool immediately.`;
         workspaceFolder: string
     ): Promise<ToolResult> {
         try {
-            const fullPath = path.join(workspaceFolder, filePath);
+            const fullPath = resolveToolPath(filePath, workspaceFolder);
             const uri = vscode.Uri.file(fullPath);
             const doc = await vscode.workspace.openTextDocument(uri);
             const lineText = doc.lineAt(line - 1).text;
@@ -1237,11 +1452,7 @@ START NOW - use a tool immediately.`;
 
     private async executeCreateDirectory(dirPath: string, workspaceFolder: string): Promise<ToolResult> {
         try {
-            const fullPath = path.join(workspaceFolder, dirPath);
-
-            if (!fullPath.startsWith(workspaceFolder)) {
-                return { success: false, output: '', error: 'Path is outside workspace' };
-            }
+            const fullPath = resolveToolPath(dirPath, workspaceFolder);
 
             fs.mkdirSync(fullPath, { recursive: true });
             return { success: true, output: `Created directory: ${dirPath}` };
@@ -1256,16 +1467,19 @@ START NOW - use a tool immediately.`;
 
     private async executeDeleteFile(filePath: string, workspaceFolder: string): Promise<ToolResult> {
         try {
-            const fullPath = path.join(workspaceFolder, filePath);
-
-            if (!fullPath.startsWith(workspaceFolder)) {
-                return { success: false, output: '', error: 'Path is outside workspace' };
-            }
+            const fullPath = resolveDeletablePath(filePath, workspaceFolder);
 
+            // Staged edits of a deleted path have nothing left to apply to
+            const discarded = getStagingArea().discard(fullPath);
             if (!fs.existsSync(fullPath)) {
+                if (discarded) {
+                    return { success: true, output: `Discarded the staged ${filePath}` };
+                }
                 return { success: false, output: '', error: 'File or directory does not exist' };
             }
 
+            this.checkpoint?.capture(fullPath);
+
             const stat = fs.statSync(fullPath);
             if (stat.isDirectory()) {
                 fs.rmSync(fullPath, { recursive: true });
@@ -1313,9 +1527,19 @@ START NOW - use a tool immediately.`;
     }
 
     private async executeGitDiff(filePath: string | undefined, workspaceFolder: string): Promise<ToolResult> {
+        let target = '.';
+        if (filePath) {
+            try {
+                target = resolveToolPath(filePath, workspaceFolder);
+            } catch (error) {
+                return { success: false, output: '', error: error instanceof Error ? error.message : 'Unknown error' };
+            }
+        }
+        // A directory or the whole workspace may hold protected files
+        const args = ['diff', '--', target, ...getProtectedPathspecs()];
+
         return new Promise((resolve) => {
-            const command = filePath ? `git diff -- "${filePath}"` : 'git diff';
-            cp.exec(command, { cwd: workspaceFolder, maxBuffer: 1024 * 1024 }, (error, stdout, stderr) => {
+            cp.execFile('git', args, { cwd: workspaceFolder, maxBuffer: 1024 * 1024 }, (error, stdout, stderr) => {
                 if (error) {
                     resolve({ success: false, output: '', error: stderr || error.message });
                 } else {
@@ -0,0 +1,320 @@
+/**
+ * The "Rubin Agent" terminal
+ *
+ * Agent commands run once, as a child process whose output is both streamed
+ * to a pseudoterminal - so the user watches it live - and captured for the
+ * agent along with the exit code. Commands get no input, are stopped after
+ * `rubin.agentCommandTimeoutSeconds`, when the agent is stopped, on Ctrl+C in
+ * the terminal or when the terminal is closed, and each output stream is cut
+ * down to `rubin.agentCommandMaxOutput` characters, keeping its start and end.
+ * A command is done when its shell exits: background processes it started
+ * keep running, but their output is only collected for a moment longer.
+ */
+
+import * as cp from 'child_process';
+import * as vscode from 'vscode';
+import { logger } from './logger';
+
+const TERMINAL_NAME = 'Rubin Agent';
+// Time a command gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 2000;
+// Time output is still collected after the shell exits, since background
+// processes it started hold the pipes open
+const OUTPUT_DRAIN_MS = 500;
+
+export interface RunOptions {
+    timeoutMs: number; // 0 for no limit
+    maxOutputChars: number; // Per stream
+}
+
+export interface CommandResult {
+    exitCode: number | null; // Null when the command was killed or didn't start
+    stdout: string;
+    stderr: string;
+    durationMs: number;
+    timedOut: boolean;
+    cancelled: boolean;
+    error?: string; // Why the command couldn't be started
+}
+
+/**
+ * Output kept within a limit: the first half of it and the most recent half
+ */
+class OutputCapture {
+    private head = '';
+    private tail = '';
+    private omitted = 0;
+
+    constructor(private readonly limit: number) { }
+
+    append(text: string): void {
+        const headLimit = Math.floor(this.limit / 2);
+        if (this.head.length < headLimit) {
+            const take = headLimit - this.head.length;
+            this.head += text.slice(0, take);
+            text = text.slice(take);
+        }
+        if (!text) {
+            return;
+        }
+
+        this.tail += text;
+        const tailLimit = this.limit - headLimit;
+        if (this.tail.length > tailLimit) {
+            const drop = this.tail.length - tailLimit;
+            this.tail = this.tail.slice(drop);
+            this.omitted += drop;
+        }
+    }
+
+    toString(): string {
+        if (this.omitted === 0) {
+            return this.head + this.tail;
+        }
+        return `${this.head}\n... [${this.omitted} characters omitted] ...\n${this.tail}`;
+    }
+}
+
+/**
+ * Stop a command and everything it started
+ */
+function killProcessTree(child: cp.ChildProcess): void {
+    const pid = child.pid;
+    if (pid === undefined) {
+        return;
+    }
+
+    if (process.platform === 'win32') {
+        // taskkill finds the children through the shell, so it has to be running
+        if (child.exitCode !== null) {
+            return;
+        }
+        cp.exec(`taskkill /pid ${pid} /T /F`, (error) => {
+            if (error) {
+                logger.warn(`Failed to stop agent command (pid ${pid})`, error);
+            }
+        });
+        return;
+    }
+
+    // The command leads its own process group, so its children are signalled
+    // too, including background ones still running after the shell exited
+    const signalGroup = (signal: NodeJS.Signals) => {
+        try {
+            process.kill(-pid, signal);
+        } catch {
+            // Already gone
+        }
+    };
+    signalGroup('SIGTERM');
+    setTimeout(() => signalGroup('SIGKILL'), KILL_GRACE_MS);
+}
+
+function formatSeconds(ms: number): string {
+    return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * What the agent is told about a command: how it ended and its output
+ */
+export function formatCommandResult(command: string, result: CommandResult): string {
+    let status: string;
+    if (result.error) {
+        status = `Could not run the command: ${result.error}`;
+    } else if (result.cancelled) {
+        status = `Stopped by the user after ${formatSeconds(result.durationMs)}`;
+    } else if (result.timedOut) {
+        status = `Timed out after ${formatSeconds(result.durationMs)} and was stopped. Commands can't wait for input, and servers or watch modes never finish on their own.`;
+    } else {
+        status = `Exit code: ${result.exitCode} (${formatSeconds(result.durationMs)})`;
+    }
+
+    const sections = [`$ ${command}`, status];
+    if (result.stdout.trim()) {
+        sections.push(`--- stdout ---\n${result.stdout.trimEnd()}`);
+    }
+    if (result.stderr.trim()) {
+        sections.push(`--- stderr ---\n${result.stderr.trimEnd()}`);
+    }
+    if (!result.stdout.trim() && !result.stderr.trim()) {
+        sections.push('(no output)');
+    }
+    return sections.join('\n');
+}
+
+export class AgentTerminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    readonly onDidWrite = this.writeEmitter.event;
+
+    private terminal: vscode.Terminal | null = null;
+    private isOpen = false;
+    private pendingOutput: string[] = []; // Written before the terminal opened
+    private interruptCommand: (() => void) | null = null;
+
+    open(): void {
+        this.isOpen = true;
+        for (const text of this.pendingOutput) {
+            this.writeEmitter.fire(text);
+        }
+        this.pendingOutput = [];
+    }
+
+    /** The user closed the terminal */
+    close(): void {
+        this.isOpen = false;
+        this.terminal = null;
+        this.pendingOutput = [];
+        this.interruptCommand?.();
+    }
+
+    handleInput(data: string): void {
+        // Ctrl+C
+        if (data === '\x03') {
+            this.interruptCommand?.();
+        }
+    }
+
+    /**
+     * Run a shell command in `cwd`, showing it in the terminal. Resolves when
+     * its shell exits, it times out or is cancelled through `signal`.
+     */
+    run(command: string, cwd: string, options: RunOptions, signal?: AbortSignal): Promise<CommandResult> {
+        this.show();
+        this.write(`\x1b[1m$ ${command}\x1b[0m\n`);
+
+        const startedAt = Date.now();
+        const stdout = new OutputCapture(options.maxOutputChars);
+        const stderr = new OutputCapture(options.maxOutputChars);
+
+        return new Promise((resolve) => {
+            const child = cp.spawn(command, {
+                cwd,
+                shell: true,
+                stdio: ['ignore', 'pipe', 'pipe'],
+                detached: process.platform !== 'win32',
+            });
+
+            let stopReason: 'timeout' | 'cancelled' | null = null;
+            const stop = (reason: 'timeout' | 'cancelled') => {
+                if (!stopReason) {
+                    stopReason = reason;
+                    killProcessTree(child);
+                }
+            };
+            const timer = options.timeoutMs > 0 ? setTimeout(() => stop('timeout'), options.timeoutMs) : null;
+            const onAbort = () => stop('cancelled');
+            signal?.addEventListener('abort', onAbort);
+            this.interruptCommand = onAbort;
+
+            child.stdout?.setEncoding('utf8');
+            child.stdout?.on('data', (text: string) => {
+                stdout.append(text);
+                this.write(text);
+            });
+            child.stderr?.setEncoding('utf8');
+            child.stderr?.on('data', (text: string) => {
+                stderr.append(text);
+                this.write(`\x1b[31m${text}\x1b[0m`);
+            });
+
+            let settled = false;
+            const finish = (exitCode: number | null, error?: Error) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                signal?.removeEventListener('abort', onAbort);
+                this.interruptCommand = null;
+
+                const result: CommandResult = {
+                    exitCode: stopReason ? null : exitCode,
+                    stdout: stdout.toString(),
+                    stderr: stderr.toString(),
+                    durationMs: Date.now() - startedAt,
+                    timedOut: stopReason === 'timeout',
+                    cancelled: stopReason === 'cancelled',
+                    error: error?.message,
+                };
+                this.write(`\n\x1b[2m[${this.describeEnd(result)}]\x1b[0m\n\n`);
+                resolve(result);
+            };
+            child.on('error', (error) => finish(null, error));
+            child.on('exit', (code) => {
+                // Waiting for the pipes to close would wait for background processes
+                const drainTimer = setTimeout(() => {
+                    child.stdout?.destroy();
+                    child.stderr?.destroy();
+                    finish(code);
+                }, OUTPUT_DRAIN_MS);
+                child.once('close', () => {
+                    clearTimeout(drainTimer);
+                    finish(code);
+                });
+            });
+
+            // Aborted before the process even started
+            if (signal?.aborted) {
+                onAbort();
+            }
+        });
+    }
+
+    dispose(): void {
+        this.interruptCommand?.();
+        this.terminal?.dispose();
+        this.writeEmitter.dispose();
+    }
+
+    private show(): void {
+        if (!this.terminal) {
+            this.terminal = vscode.window.createTerminal({ name: TERMINAL_NAME, pty: this });
+        }
+        this.terminal.show(true);
+    }
+
+    private write(text: string): void {
+        // Output of a command whose terminal was closed has nowhere to go
+        if (!this.terminal) {
+            return;
+        }
+        const normalized = text.replace(/\r?\n/g, '\r\n');
+        if (this.isOpen) {
+            this.writeEmitter.fire(normalized);
+        } else {
+            this.pendingOutput.push(normalized);
+        }
+    }
+
+    private describeEnd(result: CommandResult): string {
+        const duration = formatSeconds(result.durationMs);
+        if (result.error) {
+            return `failed to start: ${result.error}`;
+        }
+        if (result.cancelled) {
+            return `stopped after ${duration}`;
+        }
+        if (result.timedOut) {
+            return `timed out after ${duration}`;
+        }
+        return `exit code ${result.exitCode} · ${duration}`;
+    }
+}
+
+let terminalInstance: AgentTerminal | null = null;
+
+export function getAgentTerminal(): AgentTerminal {
+    if (!terminalInstance) {
+        terminalInstance = new AgentTerminal();
+    }
+    return terminalInstance;
+}
+
+export function disposeAgentTerminal(): void {
+    if (terminalInstance) {
+        terminalInstance.dispose();
+        terminalInstance = null;
+    }
+}
@@ -0,0 +1,304 @@
+/**
+ * Checkpoints of the files an agent task changes
+ *
+ * Before the agent first writes, edits, inserts into or deletes a path during
+ * a task, the path's current state is kept in memory - its contents, or the
+ * fact that it didn't exist. The task's files can then be put back one at a
+ * time or all together, whether or not the workspace is a git repository.
+ * Changes made by commands the agent runs are not captured.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { logger } from './logger';
+
+// An entry of a snapshotted directory: a file's contents, a subdirectory, or
+// a symbolic link's target
+type DirectoryEntry = Buffer | { directory: true } | { linkTarget: string };
+
+// State of a path before the task first changed it. Directory entries are
+// keyed by their path inside the directory, parents first.
+type Snapshot =
+    | { kind: 'missing' }
+    | { kind: 'file'; content: Buffer }
+    | { kind: 'link'; target: string }
+    | { kind: 'directory'; entries: Map<string, DirectoryEntry> }
+    | { kind: 'tooLarge' };
+
+export type FileChangeKind = 'created' | 'modified' | 'deleted';
+
+export interface FileChange {
+    path: string; // Relative to the workspace folder
+    kind: FileChangeKind;
+    reverted: boolean;
+    revertible: boolean; // False when the original was too large to keep
+}
+
+// Snapshots beyond this size per task are not kept, so huge deletions can't exhaust memory
+const MAX_TASK_SNAPSHOT_BYTES = 50 * 1024 * 1024;
+const MAX_TASKS = 20;
+
+export class TaskCheckpoint {
+    readonly startedAt = Date.now();
+    private snapshots = new Map<string, Snapshot>(); // In order of first change
+    private reverted = new Set<string>();
+    private snapshotBytes = 0;
+
+    constructor(
+        readonly id: string,
+        readonly title: string,
+        readonly workspaceFolder: string,
+        private readonly onChange: (task: TaskCheckpoint) => void
+    ) { }
+
+    /**
+     * Keep the state of `fullPath` before it is changed, unless this task
+     * already changed it. A symbolic link is kept as a link, along with the
+     * path it leads to, which is what a write through it changes.
+     */
+    capture(fullPath: string): void {
+        if (isSymbolicLink(fullPath)) {
+            this.captureOne(fullPath);
+            this.captureOne(resolveLinkTarget(fullPath));
+        } else {
+            this.captureOne(fullPath);
+        }
+    }
+
+    private captureOne(fullPath: string): void {
+        const relativePath = path.relative(this.workspaceFolder, fullPath);
+        if (this.snapshots.has(relativePath)) {
+            // Changed again after being reverted; the original is still the one to go back to
+            if (this.reverted.delete(relativePath)) {
+                this.onChange(this);
+            }
+            return;
+        }
+
+        this.snapshots.set(relativePath, this.takeSnapshot(fullPath));
+        this.onChange(this);
+    }
+
+    getChanges(): FileChange[] {
+        return [...this.snapshots].map(([relativePath, snapshot]) => {
+            const exists = pathExists(path.join(this.workspaceFolder, relativePath));
+            let kind: FileChangeKind = 'modified';
+            if (snapshot.kind === 'missing') {
+                kind = 'created';
+            } else if (!exists) {
+                kind = 'deleted';
+            }
+            return {
+                path: relativePath,
+                kind,
+                reverted: this.reverted.has(relativePath),
+                revertible: snapshot.kind !== 'tooLarge',
+            };
+        });
+    }
+
+    /**
+     * Put one path back the way it was before the task
+     */
+    revertFile(relativePath: string): void {
+        const snapshot = this.snapshots.get(relativePath);
+        if (!snapshot) {
+            throw new Error(`${relativePath} was not changed by this task`);
+        }
+        this.restore(relativePath, snapshot);
+        this.reverted.add(relativePath);
+        this.onChange(this);
+    }
+
+    /**
+     * Put every path the task changed back, newest change first so a file
+     * edited and then deleted along with its directory ends up as it started.
+     * Returns the paths that failed to be restored and those too large to
+     * have been kept, which still have the task's changes.
+     */
+    revertAll(): { failed: string[]; tooLarge: string[] } {
+        const failed: string[] = [];
+        const tooLarge: string[] = [];
+        for (const [relativePath, snapshot] of [...this.snapshots].reverse()) {
+            if (this.reverted.has(relativePath)) {
+                continue;
+            }
+            if (snapshot.kind === 'tooLarge') {
+                tooLarge.unshift(relativePath);
+                continue;
+            }
+            try {
+                this.restore(relativePath, snapshot);
+                this.reverted.add(relativePath);
+            } catch (error) {
+                logger.warn(`Failed to revert ${relativePath}`, error);
+                failed.push(relativePath);
+            }
+        }
+        this.onChange(this);
+        return { failed, tooLarge };
+    }
+
+    hasChanged(relativePath: string): boolean {
+        return this.snapshots.has(relativePath);
+    }
+
+    private takeSnapshot(fullPath: string): Snapshot {
+        if (!pathExists(fullPath)) {
+            return { kind: 'missing' };
+        }
+        if (isSymbolicLink(fullPath)) {
+            return { kind: 'link', target: fs.readlinkSync(fullPath) };
+        }
+
+        const budget = MAX_TASK_SNAPSHOT_BYTES - this.snapshotBytes;
+        const stat = fs.statSync(fullPath);
+        if (!stat.isDirectory()) {
+            const size = stat.size;
+            if (size > budget) {
+                return { kind: 'tooLarge' };
+            }
+            this.snapshotBytes += size;
+            return { kind: 'file', content: fs.readFileSync(fullPath) };
+        }
+
+        const entries = new Map<string, DirectoryEntry>();
+        let size = 0;
+        const walk = (dir: string): boolean => {
+            for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+                const entryPath = path.join(dir, entry.name);
+                const key = path.relative(fullPath, entryPath);
+                if (entry.isSymbolicLink()) {
+                    entries.set(key, { linkTarget: fs.readlinkSync(entryPath) });
+                } else if (entry.isDirectory()) {
+                    entries.set(key, { directory: true });
+                    if (!walk(entryPath)) {
+                        return false;
+                    }
+                } else if (entry.isFile()) {
+                    const content = fs.readFileSync(entryPath);
+                    size += content.length;
+                    if (size > budget) {
+                        return false;
+                    }
+                    entries.set(key, content);
+                }
+            }
+            return true;
+        };
+        if (!walk(fullPath)) {
+            return { kind: 'tooLarge' };
+        }
+        this.snapshotBytes += size;
+        return { kind: 'directory', entries };
+    }
+
+    private restore(relativePath: string, snapshot: Snapshot): void {
+        if (snapshot.kind === 'tooLarge') {
+            throw new Error(`${relativePath} was too large to keep a copy of`);
+        }
+
+        const fullPath = path.join(this.workspaceFolder, relativePath);
+        fs.rmSync(fullPath, { recursive: true, force: true });
+
+        if (snapshot.kind === 'file') {
+            fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+            fs.writeFileSync(fullPath, snapshot.content);
+        } else if (snapshot.kind === 'link') {
+            fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+            fs.symlinkSync(snapshot.target, fullPath);
+        } else if (snapshot.kind === 'directory') {
+            fs.mkdirSync(fullPath, { recursive: true });
+            // Parents are listed before their contents
+            for (const [entryPath, entry] of snapshot.entries) {
+                const target = path.join(fullPath, entryPath);
+                if (Buffer.isBuffer(entry)) {
+                    fs.writeFileSync(target, entry);
+                } else if ('linkTarget' in entry) {
+                    fs.symlinkSync(entry.linkTarget, target);
+                } else {
+                    fs.mkdirSync(target, { recursive: true });
+                }
+            }
+        }
+        logger.info(`Reverted agent change to ${relativePath}`);
+    }
+}
+
+function pathExists(fullPath: string): boolean {
+    try {
+        fs.lstatSync(fullPath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function isSymbolicLink(fullPath: string): boolean {
+    try {
+        return fs.lstatSync(fullPath).isSymbolicLink();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Where a link leads; for a dangling link, the path a write through it creates
+ */
+function resolveLinkTarget(fullPath: string): string {
+    try {
+        return fs.realpathSync.native(fullPath);
+    } catch {
+        return path.resolve(path.dirname(fullPath), fs.readlinkSync(fullPath));
+    }
+}
+
+export class CheckpointManager {
+    private tasks: TaskCheckpoint[] = [];
+    private nextId = 1;
+    private readonly changeEmitter = new vscode.EventEmitter<TaskCheckpoint>();
+
+    /** Fired when a task changes another path or has paths reverted */
+    readonly onDidChange = this.changeEmitter.event;
+
+    beginTask(title: string, workspaceFolder: string): TaskCheckpoint {
+        const task = new TaskCheckpoint(
+            `task-${this.nextId++}`,
+            title,
+            workspaceFolder,
+            (changed) => this.changeEmitter.fire(changed)
+        );
+        this.tasks.push(task);
+        if (this.tasks.length > MAX_TASKS) {
+            this.tasks.shift();
+        }
+        return task;
+    }
+
+    getTask(id: string): TaskCheckpoint | undefined {
+        return this.tasks.find(task => task.id === id);
+    }
+
+    getTasks(): TaskCheckpoint[] {
+        return [...this.tasks];
+    }
+
+    /**
+     * Paths of `task` that later tasks changed too; reverting them also
+     * undoes those later changes
+     */
+    getLaterChanges(task: TaskCheckpoint, paths: string[]): string[] {
+        const later = this.tasks.slice(this.tasks.indexOf(task) + 1);
+        return paths.filter(relativePath => later.some(other => other.hasChanged(relativePath)));
+    }
+}
+
+let managerInstance: CheckpointManager | null = null;
+
+export function getCheckpointManager(): CheckpointManager {
+    if (!managerInstance) {
+        managerInstance = new CheckpointManager();
+    }
+    return managerInstance;
+}
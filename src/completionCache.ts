@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+
+interface CacheEntry {
+    uri: string;
+    offset: number; // Document offset the completion was generated at
+    prefixHash: string;
+    completion: string;
+}
+
+export interface CompletionCacheStats {
+    size: number;
+    hits: number;
+    typedThroughHits: number;
+    misses: number;
+}
+
+// Characters before the cursor that identify a completion position
+const PREFIX_WINDOW = 1000;
+const MAX_ENTRIES = 100;
+
+/**
+ * LRU cache of recent inline completions.
+ *
+ * Besides exact hits at the same position, a lookup succeeds when the user
+ * has typed the start of a cached suggestion: the rest of it is returned
+ * without asking the model again.
+ */
+export class CompletionCache {
+    private entries = new Map<string, CacheEntry>();
+    private hits = 0;
+    private typedThroughHits = 0;
+    private misses = 0;
+
+    get(document: vscode.TextDocument, position: vscode.Position): string | null {
+        const uri = document.uri.toString();
+        const offset = document.offsetAt(position);
+        const key = this.buildKey(uri, offset, this.hashPrefix(document, offset));
+
+        const exact = this.entries.get(key);
+        if (exact) {
+            this.touch(key, exact);
+            this.hits++;
+            return exact.completion;
+        }
+
+        for (const [entryKey, entry] of this.entries) {
+            if (entry.uri !== uri || entry.offset >= offset) {
+                continue;
+            }
+
+            const typed = document.getText(new vscode.Range(document.positionAt(entry.offset), position));
+            if (typed.length >= entry.completion.length || !entry.completion.startsWith(typed)) {
+                continue;
+            }
+            if (this.hashPrefix(document, entry.offset) !== entry.prefixHash) {
+                continue;
+            }
+
+            this.touch(entryKey, entry);
+            this.typedThroughHits++;
+            return entry.completion.substring(typed.length);
+        }
+
+        this.misses++;
+        return null;
+    }
+
+    set(document: vscode.TextDocument, position: vscode.Position, completion: string): void {
+        const uri = document.uri.toString();
+        const offset = document.offsetAt(position);
+        const prefixHash = this.hashPrefix(document, offset);
+        const key = this.buildKey(uri, offset, prefixHash);
+
+        this.touch(key, { uri, offset, prefixHash, completion });
+
+        // Map iteration order is insertion order, so the first key is the least recently used
+        while (this.entries.size > MAX_ENTRIES) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    getStats(): CompletionCacheStats {
+        return {
+            size: this.entries.size,
+            hits: this.hits,
+            typedThroughHits: this.typedThroughHits,
+            misses: this.misses,
+        };
+    }
+
+    private touch(key: string, entry: CacheEntry): void {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+    }
+
+    private buildKey(uri: string, offset: number, prefixHash: string): string {
+        return `${uri}:${offset}:${prefixHash}`;
+    }
+
+    private hashPrefix(document: vscode.TextDocument, offset: number): string {
+        const start = document.positionAt(Math.max(0, offset - PREFIX_WINDOW));
+        const prefix = document.getText(new vscode.Range(start, document.positionAt(offset)));
+        return crypto.createHash('sha1').update(prefix).digest('hex');
+    }
+}
+
+// Singleton instance
+let cacheInstance: CompletionCache | null = null;
+
+export function getCompletionCache(): CompletionCache {
+    if (!cacheInstance) {
+        cacheInstance = new CompletionCache();
+    }
+    return cacheInstance;
+}
@@ -0,0 +1,265 @@
+/**
+ * Cross-file context for inline completions
+ *
+ * Gathers short snippets from other files that help the model complete the
+ * code at the cursor, and renders them as comments to prepend to the prefix:
+ * - Definitions of symbols used near the cursor
+ * - Imported local modules
+ * - Similar code from other open tabs
+ *
+ * Everything must fit in a small token budget and return quickly, since it
+ * runs on every completion request.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { estimateTokens, findImports, getImportedFileContent } from './smartContext';
+import { logger } from './logger';
+
+interface ContextSnippet {
+    path: string;
+    content: string;
+    label: string;
+}
+
+const DEFINITION_TIMEOUT_MS = 200;
+const MAX_SYMBOLS = 5;
+const DEFINITION_LINES = 12;
+const MAX_IMPORTS = 3;
+const SIMILARITY_WINDOW = 20; // Lines compared between the cursor and other files
+const MIN_SIMILARITY = 0.15;
+const MAX_SIMILAR_SNIPPETS = 2;
+const MAX_OPEN_DOCUMENT_LINES = 5000;
+
+/**
+ * Build the comment block of cross-file snippets, or '' if none fit the budget
+ */
+export async function buildCrossFileContext(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    maxTokens: number,
+    comment: string
+): Promise<string> {
+    if (maxTokens <= 0) {
+        return '';
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath
+        ?? path.dirname(document.fileName);
+
+    let snippets: ContextSnippet[] = [];
+    try {
+        const [definitions, imports] = await Promise.all([
+            getDefinitionSnippets(document, position, workspaceFolder),
+            getImportSnippets(document, workspaceFolder),
+        ]);
+        snippets = [...definitions, ...imports, ...getSimilarSnippets(document, position, workspaceFolder)];
+    } catch (error) {
+        logger.debug('Cross-file completion context failed', error);
+        return '';
+    }
+
+    // Spend the budget in priority order; one snippet may use at most half of it
+    const parts: string[] = [];
+    const included = new Set<string>();
+    let remaining = maxTokens;
+
+    for (const snippet of snippets) {
+        const key = `${snippet.path}\n${snippet.content}`;
+        if (included.has(key)) {
+            continue;
+        }
+
+        const rendered = renderSnippet(snippet, comment, Math.min(remaining, Math.floor(maxTokens / 2)));
+        if (!rendered) {
+            continue;
+        }
+
+        parts.push(rendered);
+        included.add(key);
+        remaining -= estimateTokens(rendered);
+        if (remaining <= 0) {
+            break;
+        }
+    }
+
+    return parts.length > 0 ? parts.join('') + '\n' : '';
+}
+
+/**
+ * Look up where identifiers on and just above the cursor line are defined
+ */
+async function getDefinitionSnippets(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    workspaceFolder: string
+): Promise<ContextSnippet[]> {
+    const lookups = getNearbyIdentifiers(document, position).map(async (symbol) => {
+        const locations = await vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink>>(
+            'vscode.executeDefinitionProvider',
+            document.uri,
+            symbol.position
+        );
+
+        const snippets: ContextSnippet[] = [];
+        for (const location of locations || []) {
+            const uri = 'targetUri' in location ? location.targetUri : location.uri;
+            const range = 'targetRange' in location ? location.targetRange : location.range;
+
+            // Definitions in this file are already part of the prefix or suffix
+            if (uri.toString() === document.uri.toString()) {
+                continue;
+            }
+
+            const definitionDocument = await vscode.workspace.openTextDocument(uri);
+            const endLine = Math.min(definitionDocument.lineCount - 1, range.start.line + DEFINITION_LINES - 1);
+            snippets.push({
+                path: path.relative(workspaceFolder, uri.fsPath),
+                content: definitionDocument.getText(
+                    new vscode.Range(range.start.line, 0, endLine, definitionDocument.lineAt(endLine).text.length)
+                ),
+                label: `Definition of ${symbol.name} in`,
+            });
+        }
+        return snippets;
+    });
+
+    // Language servers can be slow to answer; completions must not wait for them
+    const timeout = new Promise<ContextSnippet[][]>((resolve) => setTimeout(() => resolve([]), DEFINITION_TIMEOUT_MS));
+    const results = await Promise.race([Promise.all(lookups), timeout]);
+    return results.flat();
+}
+
+/**
+ * Identifiers closest to the cursor, on the cursor line and the two lines above
+ */
+function getNearbyIdentifiers(
+    document: vscode.TextDocument,
+    position: vscode.Position
+): Array<{ name: string; position: vscode.Position }> {
+    const found = new Map<string, vscode.Position>();
+
+    for (let line = position.line; line >= Math.max(0, position.line - 2); line--) {
+        const text = line === position.line
+            ? document.lineAt(line).text.substring(0, position.character)
+            : document.lineAt(line).text;
+
+        const identifiers = [...text.matchAll(/[A-Za-z_$][\w$]{2,}/g)].reverse();
+        for (const match of identifiers) {
+            if (!found.has(match[0]) && match.index !== undefined) {
+                found.set(match[0], new vscode.Position(line, match.index));
+            }
+        }
+    }
+
+    return [...found.entries()]
+        .slice(0, MAX_SYMBOLS)
+        .map(([name, symbolPosition]) => ({ name, position: symbolPosition }));
+}
+
+async function getImportSnippets(document: vscode.TextDocument, workspaceFolder: string): Promise<ContextSnippet[]> {
+    const snippets: ContextSnippet[] = [];
+    const imports = await findImports(document);
+
+    for (const importPath of imports.slice(0, MAX_IMPORTS)) {
+        const imported = await getImportedFileContent(importPath, workspaceFolder, document.fileName);
+        if (imported) {
+            snippets.push({ path: imported.relativePath, content: imported.content, label: 'Imported from' });
+        }
+    }
+
+    return snippets;
+}
+
+/**
+ * Find the windows of other open documents that share the most identifiers
+ * with the code just before the cursor
+ */
+function getSimilarSnippets(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    workspaceFolder: string
+): ContextSnippet[] {
+    const queryStart = Math.max(0, position.line - SIMILARITY_WINDOW);
+    const query = getWords(document.getText(new vscode.Range(queryStart, 0, position.line, position.character)));
+    if (query.size === 0) {
+        return [];
+    }
+
+    const candidates: Array<ContextSnippet & { score: number }> = [];
+
+    for (const other of vscode.workspace.textDocuments) {
+        if (other.uri.toString() === document.uri.toString() ||
+            other.uri.scheme !== 'file' ||
+            other.languageId !== document.languageId ||
+            other.lineCount > MAX_OPEN_DOCUMENT_LINES) {
+            continue;
+        }
+
+        const lines = other.getText().split('\n');
+        let best: { score: number; start: number } | null = null;
+
+        // Overlapping windows so a match is not split across two of them
+        for (let start = 0; start < lines.length; start += SIMILARITY_WINDOW / 2) {
+            const score = getSimilarity(query, getWords(lines.slice(start, start + SIMILARITY_WINDOW).join('\n')));
+            if (!best || score > best.score) {
+                best = { score, start };
+            }
+        }
+
+        if (best && best.score >= MIN_SIMILARITY) {
+            candidates.push({
+                path: path.relative(workspaceFolder, other.fileName),
+                content: lines.slice(best.start, best.start + SIMILARITY_WINDOW).join('\n'),
+                label: 'Compare this snippet from',
+                score: best.score,
+            });
+        }
+    }
+
+    return candidates
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_SIMILAR_SNIPPETS)
+        .map(candidate => ({ path: candidate.path, content: candidate.content, label: candidate.label }));
+}
+
+function getWords(text: string): Set<string> {
+    return new Set(text.split(/[^\w$]+/).filter(word => word.length > 1));
+}
+
+/**
+ * Jaccard similarity of two word sets
+ */
+function getSimilarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+        return 0;
+    }
+    let shared = 0;
+    for (const word of a) {
+        if (b.has(word)) {
+            shared++;
+        }
+    }
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Render a snippet as line comments, dropping trailing lines to fit the budget
+ */
+function renderSnippet(snippet: ContextSnippet, comment: string, maxTokens: number): string | null {
+    const close = comment === '<!--' ? ' -->' : comment === '/*' ? ' */' : '';
+    const toComment = (line: string) => `${comment} ${line}${close}\n`.replace(/ +\n$/, '\n');
+
+    let rendered = toComment(`${snippet.label} ${snippet.path}:`);
+    let lines = 0;
+    for (const line of snippet.content.trimEnd().split('\n')) {
+        const next = toComment(line);
+        if (estimateTokens(rendered + next) > maxTokens) {
+            break;
+        }
+        rendered += next;
+        lines++;
+    }
+
+    return lines > 0 ? rendered : null;
+}
@@ -0,0 +1,251 @@
+/**
+ * Local inline completion metrics
+ *
+ * Records, per language and model, how often suggestions are shown,
+ * accepted, partially accepted or dismissed, along with time to first token
+ * and total latency. Data is kept in the extension's global state on this
+ * machine only; it is never sent anywhere.
+ */
+
+import * as vscode from 'vscode';
+
+export interface CompletionStatsBucket {
+    language: string;
+    model: string;
+    shown: number;
+    accepted: number;
+    partiallyAccepted: number;
+    dismissed: number;
+    firstTokenMsTotal: number;
+    firstTokenCount: number;
+    latencyMsTotal: number;
+    latencyCount: number;
+}
+
+/**
+ * Rates and averages derived from a bucket's counters
+ */
+export interface CompletionStatsSummary {
+    language: string;
+    model: string;
+    shown: number;
+    accepted: number;
+    partiallyAccepted: number;
+    dismissed: number;
+    acceptanceRate: number; // Fully or partially accepted / shown
+    avgFirstTokenMs: number | null;
+    avgLatencyMs: number | null;
+}
+
+export interface CompletionStatsReport {
+    since: string;
+    buckets: CompletionStatsBucket[];
+}
+
+interface PendingSuggestion {
+    id: number;
+    language: string;
+    model: string;
+    uri: string;
+    offset: number; // Where the not-yet-accepted part of the suggestion starts
+    texts: string[]; // The not-yet-accepted part of each candidate still matching what was typed
+    partiallyAccepted: boolean;
+}
+
+const STATE_KEY = 'rubin.completionMetrics';
+export const COMPLETION_ACCEPTED_COMMAND = 'rubin.completionAccepted';
+
+export class CompletionMetrics {
+    private report: CompletionStatsReport;
+    private pending: PendingSuggestion | null = null;
+    private nextId = 1;
+
+    constructor(private readonly state: vscode.Memento) {
+        this.report = state.get<CompletionStatsReport>(STATE_KEY) ?? {
+            since: new Date().toISOString(),
+            buckets: [],
+        };
+    }
+
+    /**
+     * Record a suggestion handed to VS Code, with all the candidates the user
+     * can cycle through. A continuation is the rest of the previous suggestion
+     * served while the user types through it, so it is not counted again.
+     * Returns the id to pass to the accept command.
+     */
+    recordShown(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        texts: string[],
+        model: string,
+        continuation: boolean
+    ): number {
+        const uri = document.uri.toString();
+        const offset = document.offsetAt(position);
+
+        if (continuation && this.pending && this.pending.uri === uri) {
+            this.pending.offset = offset;
+            this.pending.texts = texts;
+            return this.pending.id;
+        }
+
+        this.resolvePending();
+        this.pending = {
+            id: this.nextId++,
+            language: document.languageId,
+            model,
+            uri,
+            offset,
+            texts,
+            partiallyAccepted: false,
+        };
+        this.getBucket(document.languageId, model).shown++;
+        this.save();
+        return this.pending.id;
+    }
+
+    recordAccepted(id: number): void {
+        if (!this.pending || this.pending.id !== id) {
+            return;
+        }
+        this.getBucket(this.pending.language, this.pending.model).accepted++;
+        this.pending = null;
+        this.save();
+    }
+
+    recordLatency(language: string, model: string, firstTokenMs: number | undefined, totalMs: number): void {
+        const bucket = this.getBucket(language, model);
+        if (firstTokenMs !== undefined) {
+            bucket.firstTokenMsTotal += firstTokenMs;
+            bucket.firstTokenCount++;
+        }
+        bucket.latencyMsTotal += totalMs;
+        bucket.latencyCount++;
+        this.save();
+    }
+
+    /**
+     * Follow edits at the suggestion. Inserting a leading part of one of its
+     * candidates several characters at a time is a partial accept (accept
+     * word/line); typing it a character at a time keeps it alive; any other
+     * edit dismisses it.
+     */
+    handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+        const pending = this.pending;
+        if (!pending || event.document.uri.toString() !== pending.uri || event.contentChanges.length === 0) {
+            return;
+        }
+
+        const change = event.contentChanges[0];
+        const isInsertAtSuggestion = event.contentChanges.length === 1 &&
+            change.rangeLength === 0 &&
+            change.rangeOffset === pending.offset &&
+            change.text.length > 0;
+        const matching = isInsertAtSuggestion ? pending.texts.filter(text => text.startsWith(change.text)) : [];
+
+        if (matching.length === 0) {
+            this.resolvePending();
+            return;
+        }
+
+        // A full accept is recorded by the accept command that follows the edit
+        if (matching.includes(change.text)) {
+            return;
+        }
+
+        if (change.text.length > 1) {
+            pending.partiallyAccepted = true;
+        }
+        pending.offset += change.text.length;
+        pending.texts = matching.map(text => text.substring(change.text.length));
+    }
+
+    getReport(): CompletionStatsReport {
+        return {
+            since: this.report.since,
+            buckets: this.report.buckets.map(bucket => ({ ...bucket })),
+        };
+    }
+
+    reset(): void {
+        this.pending = null;
+        this.report = { since: new Date().toISOString(), buckets: [] };
+        this.save();
+    }
+
+    /**
+     * Close out the current suggestion as partially accepted or dismissed
+     */
+    private resolvePending(): void {
+        if (!this.pending) {
+            return;
+        }
+        const bucket = this.getBucket(this.pending.language, this.pending.model);
+        if (this.pending.partiallyAccepted) {
+            bucket.partiallyAccepted++;
+        } else {
+            bucket.dismissed++;
+        }
+        this.pending = null;
+        this.save();
+    }
+
+    private getBucket(language: string, model: string): CompletionStatsBucket {
+        let bucket = this.report.buckets.find(b => b.language === language && b.model === model);
+        if (!bucket) {
+            bucket = {
+                language,
+                model,
+                shown: 0,
+                accepted: 0,
+                partiallyAccepted: 0,
+                dismissed: 0,
+                firstTokenMsTotal: 0,
+                firstTokenCount: 0,
+                latencyMsTotal: 0,
+                latencyCount: 0,
+            };
+            this.report.buckets.push(bucket);
+        }
+        return bucket;
+    }
+
+    private save(): void {
+        void this.state.update(STATE_KEY, this.report);
+    }
+}
+
+export function summarizeBucket(bucket: CompletionStatsBucket): CompletionStatsSummary {
+    return {
+        language: bucket.language,
+        model: bucket.model,
+        shown: bucket.shown,
+        accepted: bucket.accepted,
+        partiallyAccepted: bucket.partiallyAccepted,
+        dismissed: bucket.dismissed,
+        acceptanceRate: bucket.shown > 0 ? (bucket.accepted + bucket.partiallyAccepted) / bucket.shown : 0,
+        avgFirstTokenMs: bucket.firstTokenCount > 0 ? Math.round(bucket.firstTokenMsTotal / bucket.firstTokenCount) : null,
+        avgLatencyMs: bucket.latencyCount > 0 ? Math.round(bucket.latencyMsTotal / bucket.latencyCount) : null,
+    };
+}
+
+let metricsInstance: CompletionMetrics | null = null;
+
+/**
+ * Create the metrics store and start following document edits. Call once on activation.
+ */
+export function initCompletionMetrics(context: vscode.ExtensionContext): CompletionMetrics {
+    metricsInstance = new CompletionMetrics(context.globalState);
+    const metrics = metricsInstance;
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeTextDocument(event => metrics.handleDocumentChange(event)),
+        vscode.commands.registerCommand(COMPLETION_ACCEPTED_COMMAND, (id: number) => metrics.recordAccepted(id))
+    );
+
+    return metrics;
+}
+
+export function getCompletionMetrics(): CompletionMetrics | null {
+    return metricsInstance;
+}
@@ -1,21 +1,49 @@
 import * as vscode from 'vscode';
-import { getConfig, LocalCopilotConfig } from './config';
-import { getOllamaClient, OllamaClient } from './ollamaClient';
+import { getConfigForRole, withRoleModel, LocalCopilotConfig } from './config';
+import { getLLMClient, LLMProvider } from './llmProvider';
+import { CompletionOptions } from './ollamaClient';
+import { resolveFimTemplate, renderFimPrompt } from './fimTemplates';
+import { getCompletionCache } from './completionCache';
+import { buildCrossFileContext } from './completionContext';
+import { getCompletionMetrics, COMPLETION_ACCEPTED_COMMAND } from './completionMetrics';
+import { getSuppressionReason } from './completionSuppression';
+import { getNextEditManager } from './nextEdit';
+import {
+    CompletionMode,
+    CursorContext,
+    detectCompletionMode,
+    findCompletionBoundary,
+    rankCompletions,
+    truncateCompletion,
+} from './completionTruncation';
+import { logger } from './logger';
+
+interface CompletionPrompt {
+    prompt: string;
+    options: CompletionOptions;
+    mode: CompletionMode;
+    cursor: CursorContext;
+}
 
 export class LocalCopilotCompletionProvider implements vscode.InlineCompletionItemProvider {
-    private client: OllamaClient;
     private config: LocalCopilotConfig;
-    private debounceTimer: NodeJS.Timeout | null = null;
-    private lastRequestTime: number = 0;
 
     constructor() {
-        this.config = getConfig();
-        this.client = getOllamaClient(this.config.serverUrl);
+        this.config = getConfigForRole('completion');
+    }
+
+    /**
+     * Client for the endpoint currently serving the completion model, which
+     * changes when an endpoint goes down or comes back
+     */
+    private get client(): LLMProvider {
+        return getLLMClient(this.config);
     }
 
     updateConfig(config: LocalCopilotConfig): void {
-        this.config = config;
-        this.client.updateServerUrl(config.serverUrl);
+        this.config = withRoleModel(config, 'completion');
+        // Suggestions from a different model or prompt format are stale
+        getCompletionCache().clear();
     }
 
     async provideInlineCompletionItems(
@@ -29,21 +57,45 @@ export class LocalCopilotCompletionProvider implements vscode.InlineCompletionIt
             return null;
         }
 
-        // Don't trigger on automatic invocations too frequently
+        // A predicted next edit at the cursor takes precedence over a new completion
+        const nextEdit = getNextEditManager()?.getInlineCompletion(document, position);
+        if (nextEdit) {
+            return [nextEdit];
+        }
+
+        const suppression = getSuppressionReason(document, position);
+        if (suppression) {
+            logger.debug(`Completion skipped (${suppression})`);
+            return null;
+        }
+
+        // An explicit invoke asks for several candidates to cycle through
+        const isInvoke = context.triggerKind === vscode.InlineCompletionTriggerKind.Invoke;
+
+        // Serve repeated positions and typed-through suggestions without a
+        // request; the cache holds one suggestion, so an invoke always asks
+        const cache = getCompletionCache();
+        const cached = isInvoke ? null : cache.get(document, position);
+        if (cached) {
+            logger.debug('Completion cache hit', cache.getStats());
+            return this.createItems(document, position, [cached], true);
+        }
+
+        // Wait for typing to pause; a newer keystroke cancels this request
         if (context.triggerKind === vscode.InlineCompletionTriggerKind.Automatic) {
-            const now = Date.now();
-            if (now - this.lastRequestTime < this.config.debounceMs) {
+            const settled = await this.debounce(token);
+            if (!settled) {
                 return null;
             }
-            this.lastRequestTime = now;
         }
 
         // Cancel any pending requests
         this.client.cancelPendingRequests();
+        const startTime = Date.now();
 
         // Build the prompt from document context
-        const prompt = this.buildPrompt(document, position);
-        if (!prompt) {
+        const prompt = await this.buildPrompt(document, position);
+        if (!prompt || token.isCancellationRequested) {
             return null;
         }
 
@@ -55,31 +107,120 @@ export class LocalCopilotCompletionProvider implements vscode.InlineCompletionIt
             abortController.abort();
         });
 
+        let firstTokenMs: number | undefined;
+        prompt.options.onFirstToken = () => {
+            firstTokenMs ??= Date.now() - startTime;
+        };
+
+        const candidateCount = isInvoke ? Math.max(1, this.config.completionCandidates) : 1;
+
         try {
-            const completion = await this.client.generateCompletion(
-                prompt,
-                this.config,
-                abortController.signal
-            );
+            const candidates: string[] = [];
+            for (let i = 0; i < candidateCount && !token.isCancellationRequested; i++) {
+                const candidate = await this.generateCandidate(prompt, i, abortController.signal);
+                // Cancelled and empty requests would skew the latency averages
+                if (i === 0 && candidate && !token.isCancellationRequested) {
+                    getCompletionMetrics()?.recordLatency(
+                        document.languageId,
+                        this.config.model,
+                        firstTokenMs,
+                        Date.now() - startTime
+                    );
+                }
+                if (candidate) {
+                    candidates.push(candidate);
+                }
+            }
 
-            if (!completion || token.isCancellationRequested) {
+            if (candidates.length === 0 || token.isCancellationRequested) {
                 return null;
             }
 
-            // Create inline completion item
-            const completionItem = new vscode.InlineCompletionItem(
-                completion,
-                new vscode.Range(position, position)
-            );
+            const ranked = rankCompletions(candidates, prompt.cursor);
+            cache.set(document, position, ranked[0]);
 
-            return [completionItem];
+            return this.createItems(document, position, ranked, false);
         } catch (error) {
             console.error('Error generating completion:', error);
             return null;
         }
     }
 
-    private buildPrompt(document: vscode.TextDocument, position: vscode.Position): string | null {
+    /**
+     * Request one completion. Candidates after the first use a higher
+     * temperature and their own seed so they differ from each other.
+     */
+    private async generateCandidate(
+        prompt: CompletionPrompt,
+        index: number,
+        signal: AbortSignal
+    ): Promise<string | null> {
+        const options = index === 0
+            ? prompt.options
+            : {
+                ...prompt.options,
+                temperature: Math.min(1, (this.config.generationOptions.temperature ?? this.config.temperature) + 0.2 * index),
+                seed: index,
+            };
+
+        const response = await this.client.generateCompletion(prompt.prompt, this.config, options, signal);
+        if (!response) {
+            return null;
+        }
+
+        const completion = truncateCompletion(response, prompt.mode, prompt.cursor);
+        return completion.trim() ? completion : null;
+    }
+
+    /**
+     * Build the items shown as ghost text, best first, registering them with
+     * the local metrics so accepts and dismissals can be counted
+     */
+    private createItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        texts: string[],
+        fromCache: boolean
+    ): vscode.InlineCompletionItem[] {
+        const metrics = getCompletionMetrics();
+        const id = metrics?.recordShown(document, position, texts, this.config.model, fromCache);
+
+        return texts.map(text => {
+            const item = new vscode.InlineCompletionItem(text, new vscode.Range(position, position));
+            if (id !== undefined) {
+                item.command = { command: COMPLETION_ACCEPTED_COMMAND, title: 'Accept completion', arguments: [id] };
+            }
+            return item;
+        });
+    }
+
+    /**
+     * Resolve true once the debounce delay passes, or false as soon as
+     * VS Code cancels the request because the user kept typing
+     */
+    private debounce(token: vscode.CancellationToken): Promise<boolean> {
+        if (token.isCancellationRequested) {
+            return Promise.resolve(false);
+        }
+
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                listener.dispose();
+                resolve(!token.isCancellationRequested);
+            }, this.config.debounceMs);
+
+            const listener = token.onCancellationRequested(() => {
+                clearTimeout(timer);
+                listener.dispose();
+                resolve(false);
+            });
+        });
+    }
+
+    private async buildPrompt(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<CompletionPrompt | null> {
         const languageId = document.languageId;
         const fileName = document.fileName.split('/').pop() || 'file';
 
@@ -98,10 +239,51 @@ export class LocalCopilotCompletionProvider implements vscode.InlineCompletionIt
             return null;
         }
 
+        // Snippets from imported modules, nearby symbol definitions and similar open tabs
+        const crossFileContext = await buildCrossFileContext(
+            document,
+            position,
+            this.config.crossFileContextTokens,
+            this.getLanguageComment(languageId)
+        );
+
         // Build a fill-in-the-middle style prompt
-        const prompt = this.formatPromptForModel(languageId, fileName, prefix, suffix);
+        const prompt = this.formatPromptForModel(languageId, fileName, crossFileContext + prefix, suffix);
 
-        return prompt;
+        const cursor = this.getCursorContext(document, position, endLine);
+        const mode = detectCompletionMode(cursor);
+        prompt.options.findBoundary = (text) => findCompletionBoundary(text, mode, cursor);
+
+        return { ...prompt, mode, cursor };
+    }
+
+    private getCursorContext(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        endLine: number
+    ): CursorContext {
+        const lineText = document.lineAt(position.line).text;
+
+        let previousLine = '';
+        for (let line = position.line - 1; line >= 0; line--) {
+            const text = document.lineAt(line).text;
+            if (text.trim()) {
+                previousLine = text;
+                break;
+            }
+        }
+
+        const followingLines: string[] = [];
+        for (let line = position.line + 1; line <= endLine; line++) {
+            followingLines.push(document.lineAt(line).text);
+        }
+
+        return {
+            linePrefix: lineText.substring(0, position.character),
+            lineSuffix: lineText.substring(position.character),
+            previousLine,
+            followingLines,
+        };
     }
 
     private formatPromptForModel(
@@ -109,24 +291,30 @@ export class LocalCopilotCompletionProvider implements vscode.InlineCompletionIt
         fileName: string,
         prefix: string,
         suffix: string
-    ): string {
-        // Different prompt formats work better for different models
-        // This is a general format that works reasonably well with most code models
-
-        const languageComment = this.getLanguageComment(languageId);
-
-        // For fill-in-the-middle (FIM) capable models like codellama
-        if (this.config.model.includes('codellama') || this.config.model.includes('deepseek')) {
-            // CodeLlama FIM format
-            return `<PRE> ${prefix} <SUF>${suffix} <MID>`;
+    ): Pick<CompletionPrompt, 'prompt' | 'options'> {
+        // Fill-in-the-middle (FIM) capable models get their own sentinel tokens
+        const template = resolveFimTemplate(this.config.model);
+        if (template) {
+            // Ollama can place the suffix itself when the model template supports it
+            if (template.nativeSuffix && this.client.type === 'ollama') {
+                return { prompt: prefix, options: { suffix, stop: template.stop } };
+            }
+            return {
+                prompt: renderFimPrompt(template, prefix, suffix),
+                options: { raw: true, stop: template.stop },
+            };
         }
 
         // For general models, use a completion-style prompt
-        return `${languageComment} File: ${fileName}
+        const languageComment = this.getLanguageComment(languageId);
+        return {
+            prompt: `${languageComment} File: ${fileName}
 ${languageComment} Language: ${languageId}
 ${languageComment} Complete the following code:
 
-${prefix}`;
+${prefix}`,
+            options: {},
+        };
     }
 
     private getLanguageComment(languageId: string): string {
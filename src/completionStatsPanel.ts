@@ -0,0 +1,241 @@
+import * as vscode from 'vscode';
+import { getCompletionMetrics, summarizeBucket, CompletionStatsSummary } from './completionMetrics';
+import { getCompletionCache } from './completionCache';
+
+/**
+ * Webview report of the locally recorded inline completion metrics
+ */
+export class CompletionStatsPanel {
+    public static currentPanel: CompletionStatsPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+
+    private constructor(panel: vscode.WebviewPanel) {
+        this._panel = panel;
+        this._update();
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            async (message) => {
+                switch (message.type) {
+                    case 'refresh':
+                        this._update();
+                        break;
+                    case 'export':
+                        await vscode.commands.executeCommand('rubin.exportCompletionStats');
+                        break;
+                    case 'reset':
+                        await vscode.commands.executeCommand('rubin.resetCompletionStats');
+                        break;
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    public static createOrShow() {
+        if (CompletionStatsPanel.currentPanel) {
+            CompletionStatsPanel.currentPanel._update();
+            CompletionStatsPanel.currentPanel._panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'rubinCompletionStats',
+            'Rubin Completion Stats',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+
+        CompletionStatsPanel.currentPanel = new CompletionStatsPanel(panel);
+    }
+
+    public static refresh() {
+        CompletionStatsPanel.currentPanel?._update();
+    }
+
+    public dispose() {
+        CompletionStatsPanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+
+    private _update() {
+        this._panel.webview.html = this._getHtmlForWebview();
+    }
+
+    private _getHtmlForWebview(): string {
+        const report = getCompletionMetrics()?.getReport();
+        const rows = (report?.buckets ?? []).map(summarizeBucket).sort((a, b) => b.shown - a.shown);
+        const cache = getCompletionCache().getStats();
+        const since = report ? new Date(report.since).toLocaleString() : '-';
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Rubin Completion Stats</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            padding: 16px;
+        }
+        h2 {
+            margin: 0 0 4px 0;
+        }
+        .muted {
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 16px;
+        }
+        table {
+            border-collapse: collapse;
+            width: 100%;
+            margin-bottom: 16px;
+        }
+        th, td {
+            text-align: left;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        td.num, th.num {
+            text-align: right;
+        }
+        button {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 12px;
+            margin-right: 8px;
+            cursor: pointer;
+        }
+        button:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <h2>Inline Completion Stats</h2>
+    <div class="muted">Recorded on this machine since ${escapeHtml(since)}. Nothing is sent anywhere.</div>
+    ${rows.length > 0 ? this._renderTable(rows) : '<p>No completions recorded yet.</p>'}
+    <div class="muted">
+        Cache this session: ${cache.hits} hits, ${cache.typedThroughHits} typed-through hits,
+        ${cache.misses} misses, ${cache.size} entries
+    </div>
+    <button onclick="post('refresh')">Refresh</button>
+    <button onclick="post('export')">Export JSON</button>
+    <button onclick="post('reset')">Reset</button>
+    <script>
+        const vscode = acquireVsCodeApi();
+        function post(type) {
+            vscode.postMessage({ type });
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    private _renderTable(rows: CompletionStatsSummary[]): string {
+        const formatMs = (ms: number | null) => (ms === null ? '-' : `${ms} ms`);
+        const body = rows.map(row => `
+        <tr>
+            <td>${escapeHtml(row.language)}</td>
+            <td>${escapeHtml(row.model)}</td>
+            <td class="num">${row.shown}</td>
+            <td class="num">${row.accepted}</td>
+            <td class="num">${row.partiallyAccepted}</td>
+            <td class="num">${row.dismissed}</td>
+            <td class="num">${(row.acceptanceRate * 100).toFixed(1)}%</td>
+            <td class="num">${formatMs(row.avgFirstTokenMs)}</td>
+            <td class="num">${formatMs(row.avgLatencyMs)}</td>
+        </tr>`).join('');
+
+        return `<table>
+        <tr>
+            <th>Language</th>
+            <th>Model</th>
+            <th class="num">Shown</th>
+            <th class="num">Accepted</th>
+            <th class="num">Partial</th>
+            <th class="num">Dismissed</th>
+            <th class="num">Acceptance</th>
+            <th class="num">First token</th>
+            <th class="num">Latency</th>
+        </tr>${body}
+    </table>`;
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+export function registerCompletionStatsCommands(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rubin.showCompletionStats', () => {
+            CompletionStatsPanel.createOrShow();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rubin.exportCompletionStats', async () => {
+            const metrics = getCompletionMetrics();
+            if (!metrics) {
+                return;
+            }
+
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file('rubin-completion-stats.json'),
+                filters: { JSON: ['json'] },
+            });
+            if (!uri) {
+                return;
+            }
+
+            const report = metrics.getReport();
+            const exported = {
+                exportedAt: new Date().toISOString(),
+                since: report.since,
+                summary: report.buckets.map(summarizeBucket),
+                buckets: report.buckets,
+            };
+
+            try {
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(exported, null, 2), 'utf-8'));
+                vscode.window.showInformationMessage(`Completion stats exported to ${uri.fsPath}`);
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to export completion stats: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rubin.resetCompletionStats', async () => {
+            const confirm = await vscode.window.showWarningMessage(
+                'Reset all recorded completion stats?',
+                { modal: true },
+                'Reset'
+            );
+            if (confirm === 'Reset') {
+                getCompletionMetrics()?.reset();
+                CompletionStatsPanel.refresh();
+            }
+        })
+    );
+}
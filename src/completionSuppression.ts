@@ -0,0 +1,270 @@
+/**
+ * Rules that decide whether an inline completion should be requested at all
+ *
+ * Each rule looks at the document and cursor and returns a reason when the
+ * completion should be skipped. Rules are read from the `rubin.suppress.*`
+ * settings for the document's workspace folder, so every workspace can tune
+ * them, and run cheapest first.
+ */
+
+import * as vscode from 'vscode';
+
+interface SuppressionSettings {
+    languages: string[];
+    fileGlobs: string[];
+    maxFileSizeKb: number;
+    maxLineLength: number;
+    inComments: boolean;
+    inStrings: boolean;
+    readOnly: boolean;
+    untitled: boolean;
+}
+
+interface SuppressionInput {
+    document: vscode.TextDocument;
+    position: vscode.Position;
+    settings: SuppressionSettings;
+}
+
+interface SuppressionRule {
+    name: string;
+    check(input: SuppressionInput): string | null; // Reason to skip, or null
+}
+
+/**
+ * Comment and string delimiters used to tell whether the cursor is in code
+ */
+interface LanguageSyntax {
+    lineComments: string[];
+    blockComments: Array<[string, string]>;
+    quotes: string[]; // Longest first, so `"""` is matched before `"`
+    multilineQuotes: string[]; // Quotes whose strings may span lines
+}
+
+const C_LIKE: LanguageSyntax = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', '\''],
+    multilineQuotes: [],
+};
+
+const JS_LIKE: LanguageSyntax = {
+    ...C_LIKE,
+    quotes: ['"', '\'', '`'],
+    multilineQuotes: ['`'],
+};
+
+const HASH_COMMENTS: LanguageSyntax = {
+    lineComments: ['#'],
+    blockComments: [],
+    quotes: ['"', '\''],
+    multilineQuotes: [],
+};
+
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+    javascript: JS_LIKE,
+    typescript: JS_LIKE,
+    javascriptreact: JS_LIKE,
+    typescriptreact: JS_LIKE,
+    go: { ...C_LIKE, quotes: ['"', '\'', '`'], multilineQuotes: ['`'] },
+    java: C_LIKE,
+    c: C_LIKE,
+    cpp: C_LIKE,
+    csharp: C_LIKE,
+    rust: { ...C_LIKE, quotes: ['"'] },
+    swift: C_LIKE,
+    kotlin: C_LIKE,
+    scala: C_LIKE,
+    dart: C_LIKE,
+    php: { ...C_LIKE, lineComments: ['//', '#'] },
+    python: {
+        lineComments: ['#'],
+        blockComments: [],
+        quotes: ['"""', '\'\'\'', '"', '\''],
+        multilineQuotes: ['"""', '\'\'\''],
+    },
+    ruby: HASH_COMMENTS,
+    perl: HASH_COMMENTS,
+    r: HASH_COMMENTS,
+    shellscript: HASH_COMMENTS,
+    powershell: { ...HASH_COMMENTS, blockComments: [['<#', '#>']] },
+    yaml: HASH_COMMENTS,
+    toml: HASH_COMMENTS,
+    dockerfile: HASH_COMMENTS,
+    makefile: HASH_COMMENTS,
+    lua: { lineComments: ['--'], blockComments: [['--[[', ']]']], quotes: ['"', '\''], multilineQuotes: [] },
+    sql: { lineComments: ['--'], blockComments: [['/*', '*/']], quotes: ['\'', '"'], multilineQuotes: [] },
+    haskell: { lineComments: ['--'], blockComments: [['{-', '-}']], quotes: ['"'], multilineQuotes: [] },
+    css: { lineComments: [], blockComments: [['/*', '*/']], quotes: ['"', '\''], multilineQuotes: [] },
+    scss: { ...C_LIKE },
+    less: { ...C_LIKE },
+    html: { lineComments: [], blockComments: [['<!--', '-->']], quotes: [], multilineQuotes: [] },
+    xml: { lineComments: [], blockComments: [['<!--', '-->']], quotes: [], multilineQuotes: [] },
+};
+
+// Schemes whose documents can be viewed but never edited
+const READ_ONLY_SCHEMES = ['git', 'output'];
+
+const RULES: SuppressionRule[] = [
+    {
+        name: 'untitled',
+        check: ({ document, settings }) =>
+            settings.untitled && document.isUntitled ? 'document is untitled' : null,
+    },
+    {
+        name: 'readOnly',
+        check: ({ document, settings }) => {
+            if (!settings.readOnly) {
+                return null;
+            }
+            const scheme = document.uri.scheme;
+            const readOnly = READ_ONLY_SCHEMES.includes(scheme) ||
+                vscode.workspace.fs.isWritableFileSystem(scheme) === false;
+            return readOnly ? `document is read-only (${scheme})` : null;
+        },
+    },
+    {
+        name: 'language',
+        check: ({ document, settings }) =>
+            settings.languages.includes(document.languageId)
+                ? `language "${document.languageId}" is excluded`
+                : null,
+    },
+    {
+        name: 'fileGlob',
+        check: ({ document, settings }) => {
+            const glob = settings.fileGlobs.find(pattern => vscode.languages.match({ pattern }, document) > 0);
+            return glob ? `file matches excluded glob "${glob}"` : null;
+        },
+    },
+    {
+        name: 'fileSize',
+        check: ({ document, settings }) => {
+            const sizeKb = document.getText().length / 1024;
+            return settings.maxFileSizeKb > 0 && sizeKb > settings.maxFileSizeKb
+                ? `file is ${Math.round(sizeKb)} KB (limit ${settings.maxFileSizeKb} KB)`
+                : null;
+        },
+    },
+    {
+        name: 'lineLength',
+        check: ({ document, position, settings }) => {
+            const length = document.lineAt(position.line).text.length;
+            return settings.maxLineLength > 0 && length > settings.maxLineLength
+                ? `line is ${length} characters (limit ${settings.maxLineLength})`
+                : null;
+        },
+    },
+    {
+        name: 'commentOrString',
+        check: ({ document, position, settings }) => {
+            if (!settings.inComments && !settings.inStrings) {
+                return null;
+            }
+            const syntax = LANGUAGE_SYNTAX[document.languageId];
+            if (!syntax) {
+                return null;
+            }
+            const scope = getScopeAt(document.getText(), document.offsetAt(position), syntax);
+            if (scope === 'comment' && settings.inComments) {
+                return 'cursor is in a comment';
+            }
+            if (scope === 'string' && settings.inStrings) {
+                return 'cursor is in a string';
+            }
+            return null;
+        },
+    },
+];
+
+/**
+ * Reason to skip a completion at this position, or null to go ahead
+ */
+export function getSuppressionReason(document: vscode.TextDocument, position: vscode.Position): string | null {
+    const input: SuppressionInput = { document, position, settings: getSuppressionSettings(document) };
+
+    for (const rule of RULES) {
+        const reason = rule.check(input);
+        if (reason) {
+            return `${rule.name}: ${reason}`;
+        }
+    }
+    return null;
+}
+
+function getSuppressionSettings(document: vscode.TextDocument): SuppressionSettings {
+    const config = vscode.workspace.getConfiguration('rubin.suppress', document.uri);
+    return {
+        languages: config.get<string[]>('languages', []),
+        fileGlobs: config.get<string[]>('fileGlobs', []),
+        maxFileSizeKb: config.get<number>('maxFileSizeKb', 512),
+        maxLineLength: config.get<number>('maxLineLength', 500),
+        inComments: config.get<boolean>('inComments', true),
+        inStrings: config.get<boolean>('inStrings', true),
+        readOnly: config.get<boolean>('readOnly', true),
+        untitled: config.get<boolean>('untitled', false),
+    };
+}
+
+/**
+ * Scan the text up to the cursor and report whether the cursor ends up
+ * inside a comment, a string, or plain code
+ */
+function getScopeAt(text: string, offset: number, syntax: LanguageSyntax): 'code' | 'comment' | 'string' {
+    let i = 0;
+
+    while (i < offset) {
+        const lineComment = syntax.lineComments.find(token => text.startsWith(token, i));
+        const blockComment = syntax.blockComments.find(([open]) => text.startsWith(open, i));
+        const quote = syntax.quotes.find(token => text.startsWith(token, i));
+
+        // Block openers such as `--[[` start with a line comment token, so check them first
+        if (blockComment) {
+            const end = text.indexOf(blockComment[1], i + blockComment[0].length);
+            if (end < 0 || end + blockComment[1].length > offset) {
+                return 'comment';
+            }
+            i = end + blockComment[1].length;
+        } else if (lineComment) {
+            const end = text.indexOf('\n', i);
+            if (end < 0 || end >= offset) {
+                return 'comment';
+            }
+            i = end + 1;
+        } else if (quote) {
+            const end = findStringEnd(text, i + quote.length, quote, syntax.multilineQuotes.includes(quote));
+            // A closed string ends before the cursor when the cursor is right after its quote
+            if (end.offset < 0 || end.offset > offset || (!end.closed && end.offset === offset)) {
+                return 'string';
+            }
+            i = end.offset;
+        } else {
+            i++;
+        }
+    }
+
+    return 'code';
+}
+
+/**
+ * Offset just past the closing quote. A single-line string left open ends at
+ * the newline; a string still open at the end of the text gives -1.
+ */
+function findStringEnd(
+    text: string,
+    start: number,
+    quote: string,
+    multiline: boolean
+): { offset: number; closed: boolean } {
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            i++;
+        } else if (text.startsWith(quote, i)) {
+            return { offset: i + quote.length, closed: true };
+        } else if (char === '\n' && !multiline) {
+            return { offset: i, closed: false };
+        }
+    }
+    return { offset: -1, closed: false };
+}
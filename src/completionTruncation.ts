@@ -0,0 +1,208 @@
+/**
+ * Decide how much of a model's output to keep as an inline suggestion.
+ *
+ * Single-line mode finishes the current line. Block mode is used on an empty
+ * line after an opening brace or colon (or at the end of such a line) and
+ * keeps going until the block closes or the indentation returns to the
+ * starting level. Either way, text that already follows the cursor is not
+ * repeated. When several candidates are requested they are ranked here too.
+ */
+
+export type CompletionMode = 'line' | 'block';
+
+export interface CursorContext {
+    linePrefix: string; // Text before the cursor on its line
+    lineSuffix: string; // Text after the cursor on its line
+    previousLine: string; // Nearest non-blank line above the cursor
+    followingLines: string[]; // Lines below the cursor line
+}
+
+const BLOCK_OPENER = /(?:[{([:]|=>)\s*$/;
+const MAX_BLOCK_LINES = 30;
+// How many lines at the end of a block suggestion are compared with the suffix
+const MAX_OVERLAP_LINES = 5;
+
+export function detectCompletionMode(cursor: CursorContext): CompletionMode {
+    if (cursor.lineSuffix.trim()) {
+        return 'line';
+    }
+    const opener = cursor.linePrefix.trim() ? cursor.linePrefix : cursor.previousLine;
+    return BLOCK_OPENER.test(opener) ? 'block' : 'line';
+}
+
+/**
+ * Index where a (possibly still streaming) suggestion is complete, or -1.
+ * Only lines ending in a newline are inspected, the last one may still grow.
+ */
+export function findCompletionBoundary(text: string, mode: CompletionMode, cursor: CursorContext): number {
+    if (mode === 'line') {
+        const start = text.search(/\S/);
+        return start < 0 ? -1 : text.indexOf('\n', start);
+    }
+
+    const openerLine = cursor.linePrefix.trim() ? cursor.linePrefix : cursor.previousLine;
+    const baseIndent = getIndent(openerLine);
+    let depth = 0;
+    let lineStart = 0;
+    let lines = 0;
+    let hasContent = false;
+
+    for (let end = text.indexOf('\n'); end >= 0; end = text.indexOf('\n', lineStart)) {
+        const line = text.substring(lineStart, end);
+        // The first line continues the cursor line
+        const fullLine = lines === 0 ? cursor.linePrefix + line : line;
+
+        if (fullLine.trim()) {
+            depth += getBracketDelta(line);
+            if (depth < 0) {
+                // This line closes the block the cursor is in
+                return end;
+            }
+            if (hasContent && getIndent(fullLine) <= baseIndent) {
+                return Math.max(0, lineStart - 1);
+            }
+            hasContent = true;
+        }
+
+        lines++;
+        if (lines >= MAX_BLOCK_LINES) {
+            return end;
+        }
+        lineStart = end + 1;
+    }
+
+    return -1;
+}
+
+/**
+ * Cut a finished suggestion at its boundary and drop any tail that the
+ * document already contains after the cursor
+ */
+export function truncateCompletion(text: string, mode: CompletionMode, cursor: CursorContext): string {
+    // The stream has ended, so the last line is complete too
+    const boundary = findCompletionBoundary(text + '\n', mode, cursor);
+    const truncated = (boundary >= 0 ? text.substring(0, Math.min(boundary, text.length)) : text).trimEnd();
+
+    return mode === 'line'
+        ? removeLineOverlap(truncated, cursor)
+        : removeBlockOverlap(truncated, cursor);
+}
+
+/**
+ * Drop the end of a single-line suggestion when it repeats the start of the
+ * rest of the line, but only if that leaves the line better balanced -
+ * `a)` before `)` is a duplicate, `b()` before `)` is not
+ */
+function removeLineOverlap(completion: string, cursor: CursorContext): string {
+    const suffix = cursor.lineSuffix.trimEnd();
+    const current = getImbalance(cursor.linePrefix + completion + suffix);
+
+    for (let k = Math.min(completion.length, suffix.length); k > 0; k--) {
+        if (!completion.endsWith(suffix.substring(0, k))) {
+            continue;
+        }
+        const stripped = completion.substring(0, completion.length - k);
+        if (getImbalance(cursor.linePrefix + stripped + suffix) < current) {
+            return stripped.trimEnd();
+        }
+    }
+
+    return completion;
+}
+
+/**
+ * Drop trailing lines of a block suggestion that match the lines already
+ * following the cursor, such as a closing brace
+ */
+function removeBlockOverlap(completion: string, cursor: CursorContext): string {
+    const existing = [cursor.lineSuffix, ...cursor.followingLines]
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+    const lines = completion.split('\n');
+
+    for (let k = Math.min(lines.length, existing.length, MAX_OVERLAP_LINES); k > 0; k--) {
+        const tail = lines.slice(lines.length - k).map(line => line.trim());
+        if (tail.every((line, i) => line === existing[i])) {
+            return lines.slice(0, lines.length - k).join('\n').trimEnd();
+        }
+    }
+
+    return completion;
+}
+
+/**
+ * De-duplicate candidate suggestions and order them best first. Candidates
+ * that leave the line's brackets and strings balanced rank above those that
+ * don't, then longer suggestions above shorter ones; ties keep their order.
+ */
+export function rankCompletions(candidates: string[], cursor: CursorContext): string[] {
+    const seen = new Set<string>();
+    const unique = candidates.filter(candidate => {
+        const key = candidate.replace(/\s+/g, ' ').trim();
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+
+    const score = (candidate: string) => {
+        const imbalance = getImbalance(cursor.linePrefix + candidate + cursor.lineSuffix);
+        const length = candidate.replace(/\s/g, '').length;
+        return -2 * imbalance + 0.5 * Math.log1p(length);
+    };
+
+    return unique
+        .map((candidate, index) => ({ candidate, index, score: score(candidate) }))
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map(entry => entry.candidate);
+}
+
+function getIndent(line: string): number {
+    return line.match(/^\s*/)?.[0].length ?? 0;
+}
+
+/**
+ * Net change in bracket depth across a line, ignoring brackets in string literals
+ */
+function getBracketDelta(line: string): number {
+    return scanLine(line).depth;
+}
+
+/**
+ * How far a line is from balanced: unmatched brackets plus an unclosed string
+ */
+function getImbalance(line: string): number {
+    const { depth, unmatchedClosers, inString } = scanLine(line);
+    return Math.abs(depth) + unmatchedClosers + (inString ? 1 : 0);
+}
+
+function scanLine(line: string): { depth: number; unmatchedClosers: number; inString: boolean } {
+    let depth = 0;
+    let lowest = 0;
+    let quote: string | null = null;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+
+        if (quote) {
+            if (char === '\\') {
+                i++;
+            } else if (char === quote) {
+                quote = null;
+            }
+            continue;
+        }
+
+        if (char === '"' || char === '\'' || char === '`') {
+            quote = char;
+        } else if ('([{'.includes(char)) {
+            depth++;
+        } else if (')]}'.includes(char)) {
+            depth--;
+            lowest = Math.min(lowest, depth);
+        }
+    }
+
+    return { depth, unmatchedClosers: -lowest, inString: quote !== null };
+}
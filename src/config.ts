@@ -1,39 +1,226 @@
 import * as vscode from 'vscode';
+import { GenerationSettings, parseGenerationSettings, parseRoleGenerationSettings } from './generationOptions';
+
+export type ProviderType = 'ollama' | 'openai';
+
+/**
+ * Features that can each be routed to their own model
+ */
+export type ModelRole = 'completion' | 'chat' | 'agent' | 'edit' | 'commit' | 'embedding';
+
+export const MODEL_ROLES: ModelRole[] = ['completion', 'chat', 'agent', 'edit', 'commit', 'embedding'];
+
+export const MODEL_ROLE_LABELS: Record<ModelRole, string> = {
+    completion: 'Inline completion',
+    chat: 'Chat',
+    agent: 'Agent',
+    edit: 'Inline edit',
+    commit: 'Commit message',
+    embedding: 'Embeddings',
+};
+
+/**
+ * A model server from `rubin.endpoints`
+ */
+export interface EndpointConfig {
+    name: string;
+    url: string;
+    priority: number; // Higher is preferred
+    models: string[]; // Models the server serves; empty for any
+}
 
 export interface LocalCopilotConfig {
     enabled: boolean;
+    provider: ProviderType;
     serverUrl: string;
+    // `rubin.endpoints` by priority, or just `rubin.serverUrl` when none are listed
+    endpoints: EndpointConfig[];
+    endpointHealthCheckSeconds: number;
     model: string;
+    models: Record<ModelRole, string>; // Per-feature model, falling back to `model`
     maxTokens: number;
     temperature: number;
     debounceMs: number;
     contextLines: number;
+    crossFileContextTokens: number; // Budget for snippets from other files, 0 disables
+    completionCandidates: number; // Suggestions requested on an explicit invoke
+    nextEditSuggestions: boolean; // Predict matching edits elsewhere in the file
+    keepAlive: string; // How long Ollama keeps models loaded, '' for the server default
+    warmUpOnStartup: boolean;
+    maxContextLength: number; // Upper bound on the context window sent as num_ctx
+    contextLengthOverrides: Record<string, number>; // Context window per model name
+    // `rubin.generationOptions`, with the feature's own settings applied by withRoleModel()
+    generationOptions: GenerationSettings;
+    roleGenerationOptions: Partial<Record<ModelRole, GenerationSettings>>;
+    stageAgentEdits: boolean; // Agent file edits wait in the staging area for review
+    protectedPaths: string[]; // Globs the agent's file tools may not touch
+    agentCommandTimeoutSeconds: number; // 0 for no limit
+    agentCommandMaxOutput: number; // Characters kept per output stream of an agent command
 }
 
 const CONFIG_SECTION = 'rubin';
+const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+const API_KEY_SECRET = 'rubin.apiKey';
+const DEFAULT_PROTECTED_PATHS = [
+    '.git', '.env*', '.ssh', 'secrets', '*.pem', '*.key', 'id_rsa*', 'id_ed25519*', '.rubin', '.vscode/settings.json',
+];
+
+let secretStorage: vscode.SecretStorage | null = null;
+let cachedApiKey: string | undefined;
 
 export function getConfig(): LocalCopilotConfig {
     const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const model = config.get<string>('model', 'llama3.1:8b');
+
+    const models = {} as Record<ModelRole, string>;
+    for (const role of MODEL_ROLES) {
+        const fallback = role === 'embedding' ? DEFAULT_EMBEDDING_MODEL : model;
+        models[role] = config.get<string>(getModelSettingKey(role), '') || fallback;
+    }
+
+    const serverUrl = config.get<string>('serverUrl', 'http://localhost:11434');
 
     return {
         enabled: config.get<boolean>('enabled', true),
-        serverUrl: config.get<string>('serverUrl', 'http://localhost:11434'),
-        model: config.get<string>('model', 'llama3.1:8b'),
+        provider: config.get<ProviderType>('provider', 'ollama'),
+        serverUrl: serverUrl,
+        endpoints: parseEndpoints(config.get<unknown[]>('endpoints', []), serverUrl),
+        endpointHealthCheckSeconds: config.get<number>('endpointHealthCheckSeconds', 30),
+        model: model,
+        models: models,
         maxTokens: config.get<number>('maxTokens', 150),
         temperature: config.get<number>('temperature', 0.2),
         debounceMs: config.get<number>('debounceMs', 300),
         contextLines: config.get<number>('contextLines', 50),
+        crossFileContextTokens: config.get<number>('crossFileContextTokens', 512),
+        completionCandidates: config.get<number>('completionCandidates', 3),
+        nextEditSuggestions: config.get<boolean>('nextEditSuggestions', false),
+        keepAlive: config.get<string>('keepAlive', '30m'),
+        warmUpOnStartup: config.get<boolean>('warmUpOnStartup', false),
+        maxContextLength: config.get<number>('maxContextLength', 8192),
+        contextLengthOverrides: config.get<Record<string, number>>('contextLengthOverrides', {}),
+        generationOptions: parseGenerationSettings(
+            config.get<unknown>('generationOptions'),
+            'rubin.generationOptions'
+        ),
+        roleGenerationOptions: parseRoleGenerationSettings(
+            config.get<unknown>('roleGenerationOptions'),
+            'rubin.roleGenerationOptions'
+        ),
+        stageAgentEdits: config.get<boolean>('stageAgentEdits', true),
+        protectedPaths: config.get<string[]>('protectedPaths', DEFAULT_PROTECTED_PATHS),
+        agentCommandTimeoutSeconds: config.get<number>('agentCommandTimeoutSeconds', 120),
+        agentCommandMaxOutput: config.get<number>('agentCommandMaxOutput', 20000),
     };
 }
 
+/**
+ * Valid entries of `rubin.endpoints`, highest priority first (ties keep their
+ * listed order), falling back to `rubin.serverUrl`
+ */
+function parseEndpoints(value: unknown[], serverUrl: string): EndpointConfig[] {
+    const endpoints: EndpointConfig[] = [];
+    for (const entry of Array.isArray(value) ? value : []) {
+        const raw = entry as Partial<EndpointConfig> | null;
+        if (!raw || typeof raw.url !== 'string' || !raw.url.trim()) {
+            continue;
+        }
+        const url = raw.url.trim();
+        endpoints.push({
+            name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : getHost(url),
+            url: url,
+            priority: typeof raw.priority === 'number' ? raw.priority : 0,
+            models: Array.isArray(raw.models) ? raw.models.filter((model): model is string => typeof model === 'string') : [],
+        });
+    }
+
+    if (endpoints.length === 0) {
+        return [{ name: getHost(serverUrl), url: serverUrl, priority: 0, models: [] }];
+    }
+    return endpoints
+        .map((endpoint, index) => ({ endpoint, index }))
+        .sort((a, b) => b.endpoint.priority - a.endpoint.priority || a.index - b.index)
+        .map(({ endpoint }) => endpoint);
+}
+
+function getHost(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch {
+        return url;
+    }
+}
+
 export async function setEnabled(enabled: boolean): Promise<void> {
     const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
     await config.update('enabled', enabled, vscode.ConfigurationTarget.Global);
 }
 
-export async function setModel(model: string): Promise<void> {
+/**
+ * Get the config with `model` and `generationOptions` set for the given feature
+ */
+export function getConfigForRole(role: ModelRole): LocalCopilotConfig {
+    return withRoleModel(getConfig(), role);
+}
+
+export function withRoleModel(config: LocalCopilotConfig, role: ModelRole): LocalCopilotConfig {
+    return {
+        ...config,
+        model: config.models[role],
+        generationOptions: { ...config.generationOptions, ...config.roleGenerationOptions[role] },
+    };
+}
+
+/**
+ * Settings key holding the model for a feature, e.g. `chatModel`
+ */
+export function getModelSettingKey(role: ModelRole): string {
+    return `${role}Model`;
+}
+
+/**
+ * Set the model for one feature, or the shared default when no role is given
+ */
+export async function setModel(model: string, role?: ModelRole): Promise<void> {
     const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
-    await config.update('model', model, vscode.ConfigurationTarget.Global);
+    const key = role ? getModelSettingKey(role) : 'model';
+    await config.update(key, model, vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Load the API key from VS Code SecretStorage and keep the cached copy in sync.
+ * Must be called once during activation before getApiKey() is used.
+ */
+export async function initSecrets(context: vscode.ExtensionContext): Promise<void> {
+    secretStorage = context.secrets;
+    cachedApiKey = await secretStorage.get(API_KEY_SECRET);
+
+    context.subscriptions.push(
+        secretStorage.onDidChange(async (event) => {
+            if (event.key === API_KEY_SECRET && secretStorage) {
+                cachedApiKey = await secretStorage.get(API_KEY_SECRET);
+            }
+        })
+    );
+}
+
+/**
+ * API key for the configured provider, if one has been stored
+ */
+export function getApiKey(): string | undefined {
+    return cachedApiKey || undefined;
+}
+
+export async function setApiKey(apiKey: string | undefined): Promise<void> {
+    if (!secretStorage) {
+        throw new Error('Secret storage is not initialized');
+    }
+    if (apiKey) {
+        await secretStorage.store(API_KEY_SECRET, apiKey);
+    } else {
+        await secretStorage.delete(API_KEY_SECRET);
+    }
+    cachedApiKey = apiKey;
 }
 
 export function onConfigChange(callback: (config: LocalCopilotConfig) => void): vscode.Disposable {
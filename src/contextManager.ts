@@ -114,14 +114,19 @@ export class ContextManager {
         let contextString = '\n\n## Context Information\n';
 
         for (const item of items) {
-            contextString += `\n### ${item.title}\n`;
-            if (item.language) {
-                contextString += `\`\`\`${item.language}\n${item.content}\n\`\`\``;
-            } else {
-                contextString += item.content;
-            }
+            contextString += '\n' + this.formatContextItem(item);
         }
 
         return contextString;
     }
+
+    /**
+     * Format a single item as a titled section, fencing code in its language
+     */
+    formatContextItem(item: ContextItem): string {
+        if (item.language) {
+            return `### ${item.title}\n\`\`\`${item.language}\n${item.content}\n\`\`\``;
+        }
+        return `### ${item.title}\n${item.content}`;
+    }
 }
@@ -0,0 +1,416 @@
+/**
+ * Staging area for agent file edits
+ *
+ * With `rubin.stageAgentEdits` on, the agent's writeFile, editFile and
+ * insertCode calls change an in-memory copy of the file instead of the disk,
+ * and its later reads see that copy. Each staged file opens as a diff editor
+ * (on disk vs proposed) where every hunk can be accepted, which writes it to
+ * disk, or rejected, which drops it from the proposal.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TaskCheckpoint } from './checkpoints';
+import { logger } from './logger';
+
+const SCHEME = 'rubin-staged';
+// Above this many line pairs the changed region is shown as a single hunk
+const MAX_DIFF_CELLS = 4_000_000;
+
+type Side = 'original' | 'proposed';
+
+export interface Hunk {
+    originalStart: number; // 0-based line in the file on disk
+    originalLines: string[];
+    proposedStart: number; // 0-based line in the proposal
+    proposedLines: string[];
+}
+
+interface StagedFile {
+    fullPath: string;
+    original: string | null; // Disk contents when staged, null for a new file
+    proposed: string;
+    checkpoint: TaskCheckpoint | null; // Captures the file before accepted changes are written
+}
+
+export interface StagedFileSummary {
+    fullPath: string;
+    path: string; // Relative to the workspace
+    isNew: boolean;
+    hunks: number;
+    added: number;
+    removed: number;
+}
+
+/**
+ * Line diff of two texts, as the runs of lines that differ
+ */
+export function diffLines(original: string[], proposed: string[]): Hunk[] {
+    // Only the region between the common prefix and suffix needs a real diff
+    let start = 0;
+    while (start < original.length && start < proposed.length && original[start] === proposed[start]) {
+        start++;
+    }
+    let originalEnd = original.length;
+    let proposedEnd = proposed.length;
+    while (originalEnd > start && proposedEnd > start && original[originalEnd - 1] === proposed[proposedEnd - 1]) {
+        originalEnd--;
+        proposedEnd--;
+    }
+
+    const a = original.slice(start, originalEnd);
+    const b = proposed.slice(start, proposedEnd);
+    if (a.length === 0 && b.length === 0) {
+        return [];
+    }
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [{ originalStart: start, originalLines: a, proposedStart: start, proposedLines: b }];
+    }
+
+    // Longest common subsequence of every pair of suffixes
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i * width + j] = a[i] === b[j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    const hunks: Hunk[] = [];
+    let current: Hunk | null = null;
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            current = null;
+            i++;
+            j++;
+            continue;
+        }
+        if (!current) {
+            current = { originalStart: start + i, originalLines: [], proposedStart: start + j, proposedLines: [] };
+            hunks.push(current);
+        }
+        // Removed lines come before added ones within a hunk
+        if (i < a.length && (j >= b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+            current.originalLines.push(a[i++]);
+        } else {
+            current.proposedLines.push(b[j++]);
+        }
+    }
+    return hunks;
+}
+
+function toLines(text: string | null): string[] {
+    return text === null ? [] : text.split('\n');
+}
+
+export class StagingArea {
+    private files = new Map<string, StagedFile>(); // By full path
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly documentEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    /** Fired when a file is staged, or changes are accepted or rejected */
+    readonly onDidChange = this.changeEmitter.event;
+    /** Fired with the diff documents whose content changed */
+    readonly onDidChangeDocument = this.documentEmitter.event;
+
+    /**
+     * Proposed contents of a staged file, or undefined when nothing is staged for it
+     */
+    read(fullPath: string): string | undefined {
+        return this.files.get(fullPath)?.proposed;
+    }
+
+    /**
+     * Stage new contents for a file, replacing any earlier proposal
+     */
+    stage(fullPath: string, content: string, checkpoint: TaskCheckpoint | null): void {
+        const file = this.files.get(fullPath);
+        if (file) {
+            file.proposed = content;
+            file.checkpoint = file.checkpoint ?? checkpoint;
+            this.settle(file);
+            return;
+        }
+
+        const original = fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8') : null;
+        this.settle({ fullPath, original, proposed: content, checkpoint });
+    }
+
+    /**
+     * Drop the proposals for a path and anything under it. Returns whether there were any.
+     */
+    discard(fullPath: string): boolean {
+        let discarded = false;
+        for (const stagedPath of [...this.files.keys()]) {
+            if (stagedPath === fullPath || stagedPath.startsWith(fullPath + path.sep)) {
+                this.files.delete(stagedPath);
+                this.notify(stagedPath);
+                discarded = true;
+            }
+        }
+        return discarded;
+    }
+
+    getSummaries(): StagedFileSummary[] {
+        return [...this.files.values()].map(file => {
+            const hunks = this.getHunks(file.fullPath);
+            return {
+                fullPath: file.fullPath,
+                path: vscode.workspace.asRelativePath(file.fullPath),
+                isNew: file.original === null,
+                hunks: hunks.length,
+                added: hunks.reduce((sum, hunk) => sum + hunk.proposedLines.length, 0),
+                removed: hunks.reduce((sum, hunk) => sum + hunk.originalLines.length, 0),
+            };
+        });
+    }
+
+    getHunks(fullPath: string): Hunk[] {
+        const file = this.files.get(fullPath);
+        return file ? diffLines(toLines(file.original), toLines(file.proposed)) : [];
+    }
+
+    /**
+     * Contents for one side of a file's diff editor
+     */
+    getContent(fullPath: string, side: Side): string {
+        const file = this.files.get(fullPath);
+        if (file) {
+            return (side === 'original' ? file.original : file.proposed) ?? '';
+        }
+        // Nothing left to review; both sides show the file as it is now
+        return fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8') : '';
+    }
+
+    acceptHunk(fullPath: string, index: number): void {
+        const file = this.getFile(fullPath);
+        const hunk = this.getHunk(fullPath, index);
+        const lines = toLines(file.original);
+        lines.splice(hunk.originalStart, hunk.originalLines.length, ...hunk.proposedLines);
+        this.writeToDisk(file, lines.join('\n'));
+    }
+
+    rejectHunk(fullPath: string, index: number): void {
+        const file = this.getFile(fullPath);
+        const hunk = this.getHunk(fullPath, index);
+        const lines = toLines(file.proposed);
+        lines.splice(hunk.proposedStart, hunk.proposedLines.length, ...hunk.originalLines);
+        if (file.original === null && lines.length === 0) {
+            // Nothing left of a new file
+            this.files.delete(fullPath);
+            this.notify(fullPath);
+            return;
+        }
+        file.proposed = lines.join('\n');
+        this.settle(file);
+    }
+
+    acceptFile(fullPath: string): void {
+        const file = this.getFile(fullPath);
+        this.writeToDisk(file, file.proposed);
+    }
+
+    rejectFile(fullPath: string): void {
+        this.getFile(fullPath);
+        this.files.delete(fullPath);
+        this.notify(fullPath);
+    }
+
+    private getFile(fullPath: string): StagedFile {
+        const file = this.files.get(fullPath);
+        if (!file) {
+            throw new Error(`No staged changes for ${vscode.workspace.asRelativePath(fullPath)}`);
+        }
+        return file;
+    }
+
+    private getHunk(fullPath: string, index: number): Hunk {
+        const hunk = this.getHunks(fullPath)[index];
+        if (!hunk) {
+            throw new Error('That change is no longer staged');
+        }
+        return hunk;
+    }
+
+    private writeToDisk(file: StagedFile, content: string): void {
+        // Hunks were computed against the disk contents at staging time
+        const current = fs.existsSync(file.fullPath) ? fs.readFileSync(file.fullPath, 'utf-8') : null;
+        if (current !== file.original) {
+            throw new Error(
+                `${vscode.workspace.asRelativePath(file.fullPath)} changed on disk after the agent staged its edit. Reject the staged change and ask the agent again.`
+            );
+        }
+
+        file.checkpoint?.capture(file.fullPath);
+        fs.mkdirSync(path.dirname(file.fullPath), { recursive: true });
+        fs.writeFileSync(file.fullPath, content, 'utf-8');
+        file.original = content;
+        logger.info(`Applied staged agent changes to ${file.fullPath}`);
+        this.settle(file);
+    }
+
+    /**
+     * Keep the file staged while its proposal still differs from the disk
+     */
+    private settle(file: StagedFile): void {
+        if (file.proposed === file.original) {
+            this.files.delete(file.fullPath);
+        } else {
+            this.files.set(file.fullPath, file);
+        }
+        this.notify(file.fullPath);
+    }
+
+    private notify(fullPath: string): void {
+        for (const side of ['original', 'proposed'] as Side[]) {
+            this.documentEmitter.fire(getStagedUri(fullPath, side));
+        }
+        this.changeEmitter.fire();
+    }
+}
+
+function getStagedUri(fullPath: string, side: Side): vscode.Uri {
+    return vscode.Uri.file(fullPath).with({ scheme: SCHEME, query: side });
+}
+
+function getStagedPath(uri: vscode.Uri): string {
+    return uri.with({ scheme: 'file', query: '' }).fsPath;
+}
+
+let stagingInstance: StagingArea | null = null;
+
+export function getStagingArea(): StagingArea {
+    if (!stagingInstance) {
+        stagingInstance = new StagingArea();
+    }
+    return stagingInstance;
+}
+
+/**
+ * Open the diff editor for a staged file, or pick one when none is given
+ */
+async function reviewStagedChanges(fullPath?: string): Promise<void> {
+    const staging = getStagingArea();
+    if (!fullPath) {
+        const files = staging.getSummaries();
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('No staged agent changes to review');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            files.map(file => ({
+                label: file.path,
+                description: `${file.isNew ? 'new file, ' : ''}+${file.added} -${file.removed}`,
+                fullPath: file.fullPath,
+            })),
+            { placeHolder: 'Staged file to review' }
+        );
+        if (!picked) {
+            return;
+        }
+        fullPath = picked.fullPath;
+    }
+
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        getStagedUri(fullPath, 'original'),
+        getStagedUri(fullPath, 'proposed'),
+        `${path.basename(fullPath)}: On Disk ↔ Proposed by Agent`,
+        { preview: false }
+    );
+}
+
+/**
+ * Run a staging action, showing its error instead of throwing
+ */
+function runStagingAction(action: () => void): void {
+    try {
+        action();
+    } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    }
+}
+
+/**
+ * Accept or reject one file, or every staged file when none is given
+ */
+export function resolveStagedChanges(accept: boolean, fullPath?: string): void {
+    const staging = getStagingArea();
+    const paths = fullPath ? [fullPath] : staging.getSummaries().map(file => file.fullPath);
+    for (const stagedPath of paths) {
+        runStagingAction(() => (accept ? staging.acceptFile(stagedPath) : staging.rejectFile(stagedPath)));
+    }
+}
+
+/**
+ * Accept / Reject lenses above each hunk of a proposal
+ */
+class StagedHunkCodeLensProvider implements vscode.CodeLensProvider {
+    readonly onDidChangeCodeLenses = getStagingArea().onDidChange;
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (document.uri.query !== 'proposed') {
+            return [];
+        }
+        const fullPath = getStagedPath(document.uri);
+        return getStagingArea().getHunks(fullPath).flatMap((hunk, index) => {
+            const line = Math.min(hunk.proposedStart, Math.max(document.lineCount - 1, 0));
+            const range = new vscode.Range(line, 0, line, 0);
+            const summary = `+${hunk.proposedLines.length} -${hunk.originalLines.length}`;
+            return [
+                new vscode.CodeLens(range, {
+                    title: `✓ Accept (${summary})`,
+                    command: 'rubin.acceptStagedHunk',
+                    arguments: [fullPath, index],
+                }),
+                new vscode.CodeLens(range, {
+                    title: '✗ Reject',
+                    command: 'rubin.rejectStagedHunk',
+                    arguments: [fullPath, index],
+                }),
+            ];
+        });
+    }
+}
+
+export function registerStagingCommands(context: vscode.ExtensionContext): void {
+    const staging = getStagingArea();
+    const activeStagedPath = (uri?: vscode.Uri): string | undefined => {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        return target?.scheme === SCHEME ? getStagedPath(target) : undefined;
+    };
+
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(SCHEME, {
+            onDidChange: staging.onDidChangeDocument,
+            provideTextDocumentContent: (uri) => staging.getContent(getStagedPath(uri), uri.query as Side),
+        }),
+        vscode.languages.registerCodeLensProvider({ scheme: SCHEME }, new StagedHunkCodeLensProvider()),
+        vscode.commands.registerCommand('rubin.reviewStagedChanges', (fullPath?: string) => reviewStagedChanges(fullPath)),
+        vscode.commands.registerCommand('rubin.acceptStagedHunk', (fullPath: string, index: number) =>
+            runStagingAction(() => staging.acceptHunk(fullPath, index))
+        ),
+        vscode.commands.registerCommand('rubin.rejectStagedHunk', (fullPath: string, index: number) =>
+            runStagingAction(() => staging.rejectHunk(fullPath, index))
+        ),
+        vscode.commands.registerCommand('rubin.acceptStagedFile', (uri?: vscode.Uri) => {
+            const fullPath = activeStagedPath(uri);
+            if (fullPath) {
+                resolveStagedChanges(true, fullPath);
+            }
+        }),
+        vscode.commands.registerCommand('rubin.rejectStagedFile', (uri?: vscode.Uri) => {
+            const fullPath = activeStagedPath(uri);
+            if (fullPath) {
+                resolveStagedChanges(false, fullPath);
+            }
+        }),
+        vscode.commands.registerCommand('rubin.acceptAllStagedChanges', () => resolveStagedChanges(true)),
+        vscode.commands.registerCommand('rubin.rejectAllStagedChanges', () => resolveStagedChanges(false))
+    );
+}
@@ -0,0 +1,195 @@
+/**
+ * Model server endpoints and their health
+ *
+ * `rubin.endpoints` lists servers with a priority and, optionally, the models
+ * each one serves. Requests go to the highest-priority healthy endpoint that
+ * serves the model. With more than one endpoint, each is checked in the
+ * background every `rubin.endpointHealthCheckSeconds`, and one that a request
+ * could not reach is marked down straight away, so traffic fails over to the
+ * next endpoint and moves back once the preferred one answers again.
+ */
+
+import * as vscode from 'vscode';
+import { EndpointConfig, getConfig, LocalCopilotConfig, onConfigChange } from './config';
+import { onConnectionFailure } from './httpTransport';
+import { getClientForUrl } from './llmProvider';
+import { logger } from './logger';
+
+export interface EndpointHealth {
+    healthy: boolean;
+    checkedAt: number;
+    error?: string; // Why the last check failed
+}
+
+/**
+ * Whether an endpoint lists the model, treating `name` and `name:latest` as the same
+ */
+export function servesModel(endpoint: EndpointConfig, model: string): boolean {
+    if (endpoint.models.length === 0) {
+        return true;
+    }
+    const withTag = (name: string) => (name.includes(':') ? name : `${name}:latest`);
+    return endpoint.models.some(name => withTag(name) === withTag(model));
+}
+
+export class EndpointMonitor implements vscode.Disposable {
+    private health = new Map<string, EndpointHealth>();
+    private timer: ReturnType<typeof setInterval> | undefined;
+    private checking: Promise<void> | undefined;
+    private disposables: vscode.Disposable[] = [];
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    /** Fired when an endpoint goes down or comes back, or the endpoint list changes */
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor() {
+        this.disposables.push(
+            this.changeEmitter,
+            onConnectionFailure((url) => this.markUnreachable(url)),
+            onConfigChange(() => this.restart())
+        );
+        this.restart();
+    }
+
+    /**
+     * Endpoint to send requests for `model` to: the highest-priority one that
+     * serves it and is not known to be down. When every candidate is down the
+     * preferred one is used, so the request fails with its own explanation.
+     */
+    selectEndpoint(config: LocalCopilotConfig, model: string = config.model): EndpointConfig {
+        const serving = config.endpoints.filter(endpoint => servesModel(endpoint, model));
+        const candidates = serving.length > 0 ? serving : config.endpoints;
+        return candidates.find(endpoint => this.health.get(endpoint.url)?.healthy !== false) ?? candidates[0];
+    }
+
+    getHealth(endpoint: EndpointConfig): EndpointHealth | undefined {
+        return this.health.get(endpoint.url);
+    }
+
+    /**
+     * Check every endpoint now. Concurrent calls share the same round of checks.
+     */
+    checkAll(): Promise<void> {
+        if (!this.checking) {
+            const config = getConfig();
+            this.checking = Promise.all(config.endpoints.map(endpoint => this.check(config, endpoint)))
+                .then(() => undefined)
+                .finally(() => {
+                    this.checking = undefined;
+                });
+        }
+        return this.checking;
+    }
+
+    dispose(): void {
+        this.stopTimer();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private async check(config: LocalCopilotConfig, endpoint: EndpointConfig): Promise<void> {
+        try {
+            await getClientForUrl(config.provider, endpoint.url).testConnection();
+            this.setHealth(endpoint, undefined);
+        } catch (error) {
+            this.setHealth(endpoint, error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+
+    private setHealth(endpoint: EndpointConfig, error: string | undefined): void {
+        const previous = this.health.get(endpoint.url);
+        const healthy = error === undefined;
+        this.health.set(endpoint.url, { healthy, checkedAt: Date.now(), error });
+
+        if (previous?.healthy === healthy) {
+            return;
+        }
+        if (healthy) {
+            logger.info(`Endpoint ${endpoint.name} is available`);
+        } else {
+            logger.warn(`Endpoint ${endpoint.name} is unavailable: ${error}`);
+        }
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * A request could not reach a server; take its endpoint out of rotation
+     * until the next check finds it back
+     */
+    private markUnreachable(url: URL): void {
+        const config = getConfig();
+        if (config.endpoints.length < 2) {
+            return;
+        }
+
+        const endpoint = config.endpoints.find(candidate => {
+            try {
+                return new URL(candidate.url).origin === url.origin;
+            } catch {
+                return false;
+            }
+        });
+        if (endpoint) {
+            this.setHealth(endpoint, `Cannot reach ${url.host}`);
+        }
+    }
+
+    /**
+     * Pick up a changed endpoint list or interval. A single endpoint needs no
+     * checks - there is nothing to fail over to.
+     */
+    private restart(): void {
+        this.stopTimer();
+        const config = getConfig();
+
+        const urls = new Set(config.endpoints.map(endpoint => endpoint.url));
+        for (const url of this.health.keys()) {
+            if (!urls.has(url)) {
+                this.health.delete(url);
+            }
+        }
+
+        if (config.endpoints.length > 1) {
+            const intervalMs = Math.max(5, config.endpointHealthCheckSeconds) * 1000;
+            this.timer = setInterval(() => void this.checkAll(), intervalMs);
+            void this.checkAll();
+        } else {
+            this.health.clear();
+        }
+        this.changeEmitter.fire();
+    }
+
+    private stopTimer(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
+
+/**
+ * Models installed on every endpoint that is not known to be down, for model pickers
+ */
+export async function getAllAvailableModels(config: LocalCopilotConfig): Promise<string[]> {
+    const monitor = getEndpointMonitor();
+    const endpoints = config.endpoints.filter(endpoint => monitor.getHealth(endpoint)?.healthy !== false);
+    const lists = await Promise.all(
+        endpoints.map(endpoint => getClientForUrl(config.provider, endpoint.url).getAvailableModels())
+    );
+    return [...new Set(lists.flat())];
+}
+
+let monitorInstance: EndpointMonitor | null = null;
+
+export function getEndpointMonitor(): EndpointMonitor {
+    if (!monitorInstance) {
+        monitorInstance = new EndpointMonitor();
+    }
+    return monitorInstance;
+}
+
+export function initEndpointMonitor(context: vscode.ExtensionContext): EndpointMonitor {
+    const monitor = getEndpointMonitor();
+    context.subscriptions.push(monitor);
+    return monitor;
+}
@@ -1,7 +1,20 @@
 import * as vscode from 'vscode';
 import { LocalCopilotCompletionProvider } from './completionProvider';
-import { getConfig, setEnabled, setModel, onConfigChange } from './config';
-import { getOllamaClient } from './ollamaClient';
+import {
+    getConfig,
+    setEnabled,
+    setModel,
+    onConfigChange,
+    initSecrets,
+    setApiKey,
+    LocalCopilotConfig,
+    ModelRole,
+    MODEL_ROLES,
+    MODEL_ROLE_LABELS,
+} from './config';
+import { getLLMClient, getProviderLabel } from './llmProvider';
+import { LLMRequestError } from './httpTransport';
+import { getAllAvailableModels, getEndpointMonitor, initEndpointMonitor } from './endpoints';
 import { UnifiedPanelProvider } from './unifiedPanel';
 import { logger } from './logger';
 import { registerCodeActionProvider, registerCodeActionCommands } from './codeActions';
@@ -9,6 +22,13 @@ import { registerInlineChatCommands } from './inlineChat';
 import { registerGitCommands } from './gitIntegration';
 import { getWorkspaceIndexer } from './workspaceIndexer';
 import { getMCPManager, disposeMCPManager } from './mcpClient';
+import { initCompletionMetrics } from './completionMetrics';
+import { registerCompletionStatsCommands } from './completionStatsPanel';
+import { initNextEditSuggestions } from './nextEdit';
+import { registerModelCommands, warmUpModels } from './modelManager';
+import { registerStagingCommands } from './editStaging';
+import { registerToolPermissionCommands } from './toolPermissions';
+import { disposeAgentTerminal } from './agentTerminal';
 
 let statusBarItem: vscode.StatusBarItem;
 let completionProvider: LocalCopilotCompletionProvider;
@@ -22,6 +42,21 @@ export function activate(context: vscode.ExtensionContext) {
     try {
         const config = getConfig();
 
+    // Load the provider API key from SecretStorage before the first request
+    const secretsReady = initSecrets(context).catch(err => {
+        logger.warn('Failed to load API key from secret storage', err);
+    });
+
+    // Health checks that fail requests over between `rubin.endpoints`
+    const endpointMonitor = initEndpointMonitor(context);
+
+    // Local-only completion metrics, fed by the completion provider
+    initCompletionMetrics(context);
+    registerCompletionStatsCommands(context);
+
+    // Predicts the matching edit elsewhere in a file; shown through the completion provider
+    initNextEditSuggestions(context);
+
     // Create and register the completion provider
     completionProvider = new LocalCopilotCompletionProvider();
 
@@ -51,6 +86,15 @@ export function activate(context: vscode.ExtensionContext) {
     // Register git commands (commit message generation)
     registerGitCommands(context);
 
+    // Register model management commands (pull, delete, inspect, warm up)
+    registerModelCommands(context);
+
+    // Register review of staged agent edits (diff editors, per-hunk accept / reject)
+    registerStagingCommands(context);
+
+    // Register agent tool permission commands
+    registerToolPermissionCommands(context);
+
     // Start workspace indexing in background
     getWorkspaceIndexer().buildIndex().catch(err => {
         logger.warn('Failed to build workspace index', err);
@@ -68,15 +112,18 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(statusBarItem);
 
     // Update status bar
-    updateStatusBar(config.enabled, config.model);
+    updateStatusBar(config);
     statusBarItem.show();
 
+    // Show which endpoint is serving as endpoints go down and come back
+    context.subscriptions.push(endpointMonitor.onDidChange(() => updateStatusBar(getConfig())));
+
     // Register commands
     const toggleCommand = vscode.commands.registerCommand('rubin.toggle', async () => {
         const currentConfig = getConfig();
         const newEnabled = !currentConfig.enabled;
         await setEnabled(newEnabled);
-        updateStatusBar(newEnabled, currentConfig.model);
+        updateStatusBar({ ...currentConfig, enabled: newEnabled });
         vscode.window.showInformationMessage(
             `Rubin ${newEnabled ? 'enabled' : 'disabled'}`
         );
@@ -84,51 +131,103 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(toggleCommand);
 
     const selectModelCommand = vscode.commands.registerCommand('rubin.selectModel', async () => {
-        const client = getOllamaClient(getConfig().serverUrl);
-        const models = await client.getAvailableModels();
+        const currentConfig = getConfig();
+        const models = await getAllAvailableModels(currentConfig);
 
         if (models.length === 0) {
             vscode.window.showWarningMessage(
-                'No models found. Make sure Ollama is running and has models installed.'
+                `No models found. Make sure ${getProviderLabel(currentConfig.provider)} is running and has models installed.`
             );
             return;
         }
 
-        const selected = await vscode.window.showQuickPick(models, {
-            placeHolder: 'Select a model for code completion',
+        // Pick which feature to change first - each can use its own model
+        const roleItems: Array<vscode.QuickPickItem & { role?: ModelRole }> = [
+            {
+                label: 'All features',
+                description: currentConfig.model,
+                detail: 'Default model (rubin.model) for every feature without its own setting',
+            },
+            ...MODEL_ROLES.map(role => ({
+                label: MODEL_ROLE_LABELS[role],
+                description: currentConfig.models[role],
+                role,
+            })),
+        ];
+
+        const roleItem = await vscode.window.showQuickPick(roleItems, {
+            placeHolder: 'Which feature do you want to change the model for?',
             title: 'Rubin: Select Model'
         });
+        if (!roleItem) {
+            return;
+        }
+
+        const roleLabel = roleItem.role ? MODEL_ROLE_LABELS[roleItem.role] : 'Default';
+        const selected = await vscode.window.showQuickPick(models, {
+            placeHolder: `Select the ${roleLabel.toLowerCase()} model (current: ${roleItem.description})`,
+            title: `Rubin: Select ${roleLabel} Model`
+        });
 
         if (selected) {
-            await setModel(selected);
-            updateStatusBar(getConfig().enabled, selected);
-            vscode.window.showInformationMessage(`Model changed to ${selected}`);
+            await setModel(selected, roleItem.role);
+            vscode.window.showInformationMessage(`${roleLabel} model changed to ${selected}`);
         }
     });
     context.subscriptions.push(selectModelCommand);
 
     const checkConnectionCommand = vscode.commands.registerCommand('rubin.checkConnection', async () => {
         const currentConfig = getConfig();
-        const client = getOllamaClient(currentConfig.serverUrl);
+        const providerLabel = getProviderLabel(currentConfig.provider);
 
-        const statusMessage = vscode.window.setStatusBarMessage('Checking Ollama connection...');
+        const statusMessage = vscode.window.setStatusBarMessage(`Checking ${providerLabel} connection...`);
 
-        const connected = await client.checkConnection();
-        statusMessage.dispose();
+        if (currentConfig.endpoints.length > 1) {
+            try {
+                await reportEndpointHealth(currentConfig);
+            } finally {
+                statusMessage.dispose();
+            }
+            return;
+        }
 
-        if (connected) {
+        const client = getLLMClient(currentConfig);
+        try {
+            await client.testConnection();
             const models = await client.getAvailableModels();
             vscode.window.showInformationMessage(
-                `✅ Connected to Ollama at ${currentConfig.serverUrl}. Available models: ${models.join(', ')}`
+                `✅ Connected to ${providerLabel} at ${currentConfig.serverUrl}. Available models: ${models.join(', ')}`
             );
-        } else {
+        } catch (error) {
+            const hint = currentConfig.provider === 'ollama'
+                ? 'Make sure Ollama is running with \'ollama serve\'.'
+                : 'Make sure the server is running and the URL and API key are correct.';
+            const reason = error instanceof LLMRequestError ? error.message : hint;
             vscode.window.showErrorMessage(
-                `❌ Cannot connect to Ollama at ${currentConfig.serverUrl}. Make sure Ollama is running with 'ollama serve'.`
+                `❌ Cannot connect to ${providerLabel} at ${currentConfig.serverUrl}. ${reason}`
             );
+        } finally {
+            statusMessage.dispose();
         }
     });
     context.subscriptions.push(checkConnectionCommand);
 
+    const setApiKeyCommand = vscode.commands.registerCommand('rubin.setApiKey', async () => {
+        const apiKey = await vscode.window.showInputBox({
+            prompt: 'API key for the model server (leave empty to remove the stored key)',
+            password: true,
+            ignoreFocusOut: true,
+        });
+
+        if (apiKey === undefined) {
+            return;
+        }
+
+        await setApiKey(apiKey.trim() || undefined);
+        vscode.window.showInformationMessage(apiKey.trim() ? 'API key saved' : 'API key removed');
+    });
+    context.subscriptions.push(setApiKeyCommand);
+
     // Command to open unified panel
     const openChatCommand = vscode.commands.registerCommand('rubin.openChat', () => {
         vscode.commands.executeCommand('rubin.unifiedView.focus');
@@ -242,7 +341,7 @@ export function activate(context: vscode.ExtensionContext) {
     // Listen for configuration changes
     const configChangeDisposable = onConfigChange((newConfig) => {
         completionProvider.updateConfig(newConfig);
-        updateStatusBar(newConfig.enabled, newConfig.model);
+        updateStatusBar(newConfig);
         logger.debug('Configuration updated', newConfig);
         
         // Refresh MCP servers when config changes
@@ -251,7 +350,7 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(configChangeDisposable);
 
     // Initial connection check (non-blocking)
-    checkConnectionOnStartup();
+    secretsReady.then(() => checkConnectionOnStartup());
 
     logger.info('Rubin extension activated successfully');
     } catch (error) {
@@ -260,11 +359,30 @@ export function activate(context: vscode.ExtensionContext) {
     }
 }
 
-function updateStatusBar(enabled: boolean, model: string): void {
-    if (enabled) {
-        statusBarItem.text = `$(hubot) ${model}`;
-        statusBarItem.tooltip = `Rubin: ${model} (click to toggle)`;
+function updateStatusBar(config: LocalCopilotConfig): void {
+    if (config.enabled) {
+        const roles = MODEL_ROLES
+            .map(role => `${MODEL_ROLE_LABELS[role]}: ${config.models[role]}`)
+            .join('\n');
+        statusBarItem.text = `$(hubot) ${config.models.completion}`;
+        statusBarItem.tooltip = `Rubin (click to toggle)\n${roles}`;
         statusBarItem.backgroundColor = undefined;
+
+        if (config.endpoints.length > 1) {
+            const monitor = getEndpointMonitor();
+            const serving = monitor.selectEndpoint(config, config.models.completion);
+            const endpoints = config.endpoints.map(endpoint => {
+                const health = monitor.getHealth(endpoint);
+                const state = !health ? 'not checked yet' : health.healthy ? 'available' : `down - ${health.error}`;
+                return `${endpoint === serving ? '▶' : '  '} ${endpoint.name} (${endpoint.url}): ${state}`;
+            });
+            statusBarItem.text += ` @ ${serving.name}`;
+            statusBarItem.tooltip += `\n\nEndpoints:\n${endpoints.join('\n')}`;
+            if (serving !== config.endpoints[0]) {
+                // Failed over from the preferred endpoint
+                statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+            }
+        }
     } else {
         statusBarItem.text = `$(hubot) Disabled`;
         statusBarItem.tooltip = 'Rubin: Disabled (click to enable)';
@@ -272,17 +390,51 @@ function updateStatusBar(enabled: boolean, model: string): void {
     }
 }
 
+/**
+ * Check every endpoint and show which are available, for `rubin.checkConnection`
+ */
+async function reportEndpointHealth(config: LocalCopilotConfig): Promise<void> {
+    const monitor = getEndpointMonitor();
+    await monitor.checkAll();
+
+    const lines = config.endpoints.map(endpoint => {
+        const health = monitor.getHealth(endpoint);
+        return health?.healthy
+            ? `✅ ${endpoint.name} (${endpoint.url})`
+            : `❌ ${endpoint.name} (${endpoint.url}): ${health?.error ?? 'not checked'}`;
+    });
+    const available = config.endpoints.filter(endpoint => monitor.getHealth(endpoint)?.healthy).length;
+    const message = `${available} of ${config.endpoints.length} endpoints available.`;
+
+    if (available > 0) {
+        vscode.window.showInformationMessage(message, { modal: true, detail: lines.join('\n') });
+    } else {
+        vscode.window.showErrorMessage(message, { modal: true, detail: lines.join('\n') });
+    }
+}
+
 async function checkConnectionOnStartup(): Promise<void> {
     const config = getConfig();
-    const client = getOllamaClient(config.serverUrl);
+    if (config.endpoints.length > 1) {
+        // Route the check to an endpoint that is up
+        await getEndpointMonitor().checkAll();
+    }
+    const endpoint = getEndpointMonitor().selectEndpoint(config);
+    const client = getLLMClient(config);
+    const providerLabel = getProviderLabel(config.provider);
 
-    logger.debug(`Checking connection to Ollama at ${config.serverUrl}`);
-    const connected = await client.checkConnection();
+    logger.debug(`Checking connection to ${providerLabel} at ${endpoint.url}`);
+    let failure: string | undefined;
+    try {
+        await client.testConnection();
+    } catch (error) {
+        failure = error instanceof LLMRequestError ? error.message : `Make sure it's running.`;
+    }
 
-    if (!connected) {
-        logger.warn('Cannot connect to Ollama on startup');
+    if (failure !== undefined) {
+        logger.warn(`Cannot connect to ${providerLabel} on startup: ${failure}`);
         const action = await vscode.window.showWarningMessage(
-            'Rubin: Cannot connect to Ollama. Make sure it\'s running.',
+            `Rubin: Cannot connect to ${providerLabel}. ${failure}`,
             'Check Connection',
             'Open Settings'
         );
@@ -293,7 +445,12 @@ async function checkConnectionOnStartup(): Promise<void> {
             vscode.commands.executeCommand('workbench.action.openSettings', 'rubin');
         }
     } else {
-        logger.info('Successfully connected to Ollama');
+        logger.info(`Successfully connected to ${providerLabel}`);
+
+        // Load the models in the background so the first completion isn't a cold start
+        if (config.warmUpOnStartup && config.provider === 'ollama') {
+            void warmUpModels(vscode.ProgressLocation.Window);
+        }
     }
 }
 
@@ -315,5 +472,6 @@ async function initializeMCPServers(): Promise<void> {
 
 export function deactivate() {
     disposeMCPManager();
+    disposeAgentTerminal();
     logger.info('Rubin extension deactivated');
 }
@@ -0,0 +1,121 @@
+/**
+ * Fill-in-the-middle (FIM) prompt templates for local code models
+ *
+ * Each code model family was trained with its own sentinel tokens for
+ * prefix/suffix/middle. Templates are matched against the model name;
+ * entries from the `rubin.fimTemplates` setting are checked before the
+ * built-in ones so users can add or override models.
+ */
+
+import * as vscode from 'vscode';
+import { logger } from './logger';
+
+export interface FimTemplate {
+    name: string;
+    pattern: RegExp; // Matched against the model name
+    template: string; // Uses {prefix} and {suffix} placeholders
+    stop: string[];
+    // Send the prefix as the prompt and the suffix through Ollama's native
+    // `suffix` field, letting the model's own template place the tokens
+    nativeSuffix: boolean;
+}
+
+/**
+ * Shape of an entry in the `rubin.fimTemplates` setting
+ */
+export interface FimTemplateSetting {
+    pattern: string;
+    template: string;
+    stop?: string[];
+    nativeSuffix?: boolean;
+}
+
+const BUILTIN_FIM_TEMPLATES: FimTemplate[] = [
+    {
+        name: 'qwen2.5-coder',
+        pattern: /qwen[\d.]*-?coder/i,
+        template: '<|fim_prefix|>{prefix}<|fim_suffix|>{suffix}<|fim_middle|>',
+        stop: ['<|endoftext|>', '<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>', '<|file_sep|>', '<|im_end|>'],
+        nativeSuffix: true,
+    },
+    {
+        name: 'starcoder2',
+        pattern: /starcoder/i,
+        template: '<fim_prefix>{prefix}<fim_suffix>{suffix}<fim_middle>',
+        stop: ['<|endoftext|>', '<fim_prefix>', '<fim_suffix>', '<fim_middle>', '<file_sep>'],
+        nativeSuffix: false,
+    },
+    {
+        name: 'deepseek-coder',
+        pattern: /deepseek-coder/i,
+        template: '<｜fim▁begin｜>{prefix}<｜fim▁hole｜>{suffix}<｜fim▁end｜>',
+        stop: ['<｜fim▁begin｜>', '<｜fim▁hole｜>', '<｜fim▁end｜>', '<｜end▁of▁sentence｜>', '<|EOT|>'],
+        nativeSuffix: false,
+    },
+    {
+        name: 'codegemma',
+        pattern: /codegemma/i,
+        template: '<|fim_prefix|>{prefix}<|fim_suffix|>{suffix}<|fim_middle|>',
+        stop: ['<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>', '<|file_separator|>', '<end_of_turn>', '<eos>'],
+        nativeSuffix: false,
+    },
+    {
+        name: 'codestral',
+        pattern: /codestral/i,
+        template: '[SUFFIX]{suffix}[PREFIX]{prefix}',
+        stop: ['[INST]', '[/INST]', '[PREFIX]', '[SUFFIX]', '[MIDDLE]', '</s>'],
+        nativeSuffix: true,
+    },
+    {
+        name: 'codellama',
+        pattern: /codellama/i,
+        template: '<PRE> {prefix} <SUF>{suffix} <MID>',
+        stop: ['<EOT>', '<PRE>', '<SUF>', '<MID>'],
+        nativeSuffix: false,
+    },
+];
+
+/**
+ * Read user-defined templates from settings, skipping invalid patterns
+ */
+function getUserTemplates(): FimTemplate[] {
+    const settings = vscode.workspace
+        .getConfiguration('rubin')
+        .get<FimTemplateSetting[]>('fimTemplates', []);
+
+    const templates: FimTemplate[] = [];
+    for (const setting of settings) {
+        if (!setting.pattern || !setting.template) {
+            continue;
+        }
+        try {
+            templates.push({
+                name: setting.pattern,
+                pattern: new RegExp(setting.pattern, 'i'),
+                template: setting.template,
+                stop: setting.stop || [],
+                nativeSuffix: setting.nativeSuffix ?? false,
+            });
+        } catch (error) {
+            logger.warn(`Ignoring FIM template with invalid pattern "${setting.pattern}"`, error);
+        }
+    }
+    return templates;
+}
+
+/**
+ * Find the FIM template for a model, or null if the model has no known FIM format
+ */
+export function resolveFimTemplate(model: string): FimTemplate | null {
+    const templates = [...getUserTemplates(), ...BUILTIN_FIM_TEMPLATES];
+    return templates.find(t => t.pattern.test(model)) || null;
+}
+
+/**
+ * Fill a template's placeholders with the text around the cursor
+ */
+export function renderFimPrompt(template: FimTemplate, prefix: string, suffix: string): string {
+    // One pass, so a `{suffix}` inside the prefix stays as it is, and a
+    // replacer function so `$` sequences in code are not treated as patterns
+    return template.template.replace(/\{(prefix|suffix)\}/g, (_, key) => (key === 'prefix' ? prefix : suffix));
+}
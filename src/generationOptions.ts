@@ -0,0 +1,136 @@
+/**
+ * Generation settings from `rubin.generationOptions` and, per feature,
+ * `rubin.roleGenerationOptions`. They are validated when read - invalid
+ * values are dropped with a warning in the log - and override the defaults
+ * each call site uses, such as chat's temperature or the agent's reply length.
+ */
+
+import { LocalCopilotConfig, ModelRole } from './config';
+import { GenerateOptions, KeepAlive } from './ollamaClient';
+import { logger } from './logger';
+
+// 'json' for any JSON object, or a JSON schema the reply must follow
+export type ResponseFormat = 'json' | Record<string, unknown>;
+
+/**
+ * Model options plus the request-level `keep_alive` and `format`. `format`
+ * can't be set by the user: it is only set by chatJson() for its request.
+ */
+export interface GenerationSettings extends GenerateOptions {
+    keep_alive?: KeepAlive;
+    format?: ResponseFormat;
+}
+
+type Check = (value: unknown) => boolean;
+
+const isNumber = (min = -Infinity, max = Infinity): Check =>
+    (value) => typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+const isInteger = (min = -Infinity, max = Infinity): Check =>
+    (value) => isNumber(min, max)(value) && Number.isInteger(value);
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type UserSetting = Exclude<keyof GenerationSettings, 'format'>;
+
+const SETTING_CHECKS: Record<UserSetting, { check: Check; expected: string }> = {
+    num_ctx: { check: isInteger(1), expected: 'a positive integer' },
+    num_predict: { check: isInteger(-2), expected: 'an integer (-1 for no limit)' },
+    temperature: { check: isNumber(0, 2), expected: 'a number from 0 to 2' },
+    top_p: { check: isNumber(0, 1), expected: 'a number from 0 to 1' },
+    top_k: { check: isInteger(0), expected: 'a non-negative integer' },
+    min_p: { check: isNumber(0, 1), expected: 'a number from 0 to 1' },
+    repeat_penalty: { check: isNumber(0), expected: 'a non-negative number' },
+    repeat_last_n: { check: isInteger(-1), expected: 'an integer (-1 for the whole context)' },
+    seed: { check: isInteger(), expected: 'an integer' },
+    stop: {
+        check: (value) => Array.isArray(value) && value.every(item => typeof item === 'string'),
+        expected: 'an array of strings',
+    },
+    mirostat: { check: (value) => value === 0 || value === 1 || value === 2, expected: '0, 1 or 2' },
+    mirostat_tau: { check: isNumber(0), expected: 'a non-negative number' },
+    mirostat_eta: { check: isNumber(0), expected: 'a non-negative number' },
+    keep_alive: {
+        check: (value) => typeof value === 'string' || isInteger()(value),
+        expected: 'a duration such as "30m" or a number of seconds',
+    },
+};
+
+const GENERATION_ROLES: ModelRole[] = ['completion', 'chat', 'agent', 'edit', 'commit'];
+
+// Settings are read on every request, so each problem is only logged once
+const reportedProblems = new Set<string>();
+
+/**
+ * Keep the valid entries of a settings object, logging the rest
+ */
+export function parseGenerationSettings(value: unknown, setting: string): GenerationSettings {
+    if (!isPlainObject(value)) {
+        if (value !== undefined && value !== null) {
+            reportProblem(`${setting} must be an object`);
+        }
+        return {};
+    }
+
+    const settings: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+        const rule = SETTING_CHECKS[key as UserSetting];
+        if (key === 'format') {
+            reportProblem(`${setting}.format is not supported; features that need JSON replies set it themselves`);
+        } else if (!rule) {
+            reportProblem(`${setting}: unknown option "${key}"`);
+        } else if (!rule.check(entry)) {
+            reportProblem(`${setting}.${key} must be ${rule.expected}`);
+        } else {
+            settings[key] = entry;
+        }
+    }
+    return settings as GenerationSettings;
+}
+
+/**
+ * Per-feature settings from `rubin.roleGenerationOptions`, keyed by role
+ */
+export function parseRoleGenerationSettings(
+    value: unknown,
+    setting: string
+): Partial<Record<ModelRole, GenerationSettings>> {
+    const byRole: Partial<Record<ModelRole, GenerationSettings>> = {};
+    if (!isPlainObject(value)) {
+        return byRole;
+    }
+
+    for (const [role, entry] of Object.entries(value)) {
+        if (!GENERATION_ROLES.includes(role as ModelRole)) {
+            reportProblem(`${setting}: unknown feature "${role}" (expected ${GENERATION_ROLES.join(', ')})`);
+            continue;
+        }
+        byRole[role as ModelRole] = parseGenerationSettings(entry, `${setting}.${role}`);
+    }
+    return byRole;
+}
+
+/**
+ * Model options for a request: the call site's defaults with the user's
+ * settings for the feature applied over them
+ */
+export function getGenerateOptions(config: LocalCopilotConfig, defaults: GenerateOptions = {}): GenerateOptions {
+    const options: GenerationSettings = { ...defaults, ...config.generationOptions };
+    // Request-level settings, sent outside `options`
+    delete options.keep_alive;
+    delete options.format;
+    return options;
+}
+
+/**
+ * Response format of a structured request, set by chatJson()
+ */
+export function getResponseFormat(config: LocalCopilotConfig): ResponseFormat | undefined {
+    return config.generationOptions.format;
+}
+
+function reportProblem(problem: string): void {
+    if (!reportedProblems.has(problem)) {
+        reportedProblems.add(problem);
+        logger.warn(`Ignoring invalid generation setting - ${problem}`);
+    }
+}
@@ -1,8 +1,23 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
-import { getConfig } from './config';
-import { getOllamaClient } from './ollamaClient';
+import { getConfigForRole } from './config';
+import { getLLMClient } from './llmProvider';
 import { logger } from './logger';
+import { JsonSchema } from './structuredOutput';
+
+interface CommitMessageReply {
+    subject: string;
+    body: string;
+}
+
+const COMMIT_MESSAGE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        subject: { type: 'string', minLength: 1, description: 'First line: type(scope): description' },
+        body: { type: 'string', description: 'Why the change was made, or an empty string' },
+    },
+    required: ['subject', 'body'],
+};
 
 /**
  * Git integration for AI-powered features
@@ -35,8 +50,8 @@ export class GitIntegration {
             // Get staged file list
             const stagedFiles = await this.getStagedFiles();
 
-            const config = getConfig();
-            const client = getOllamaClient(config.serverUrl);
+            const config = getConfigForRole('commit');
+            const client = getLLMClient(config);
 
             const prompt = this.buildCommitMessagePrompt(diff, stagedFiles);
 
@@ -47,20 +62,16 @@ export class GitIntegration {
                     cancellable: false,
                 },
                 async () => {
-                    return await client.generateChat(prompt, {
-                        ...config,
-                        maxTokens: 500,
-                        temperature: 0.3,
-                    });
+                    return await client.chatJson<CommitMessageReply>(
+                        [{ role: 'user', content: prompt }],
+                        COMMIT_MESSAGE_SCHEMA,
+                        config,
+                        { num_predict: 500, temperature: 0.3 }
+                    );
                 }
             );
 
-            if (response) {
-                const message = this.cleanCommitMessage(response);
-                return message;
-            }
-
-            return null;
+            return response ? this.formatCommitMessage(response) : null;
         } catch (error) {
             logger.error('Failed to generate commit message', error);
             vscode.window.showErrorMessage(
@@ -153,28 +164,16 @@ RULES:
 5. Be specific but concise
 6. Add a body only if needed to explain "why"
 
-Return ONLY the commit message, nothing else.`;
+Reply with a JSON object: "subject" is the first line and "body" is the body, or "" when none is needed.`;
     }
 
     /**
-     * Clean up the generated commit message
+     * Join the subject and body into a commit message
      */
-    private cleanCommitMessage(response: string): string {
-        let message = response.trim();
-
-        // Remove quotes if wrapped
-        if ((message.startsWith('"') && message.endsWith('"')) ||
-            (message.startsWith("'") && message.endsWith("'"))) {
-            message = message.slice(1, -1);
-        }
-
-        // Remove markdown code blocks
-        message = message.replace(/```\w*\n?/g, '').replace(/```/g, '');
-
-        // Ensure proper line breaks
-        message = message.replace(/\\n/g, '\n');
-
-        return message.trim();
+    private formatCommitMessage(reply: CommitMessageReply): string {
+        const subject = reply.subject.trim();
+        const body = reply.body.trim();
+        return body ? `${subject}\n\n${body}` : subject;
     }
 
     /**
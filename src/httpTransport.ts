@@ -0,0 +1,462 @@
+/**
+ * Shared HTTP transport for the model clients
+ *
+ * Connections are reused through keep-alive agents, and requests to a server
+ * that is still starting or loading a model are retried with backoff. Every
+ * failure becomes an LLMRequestError whose kind says what went wrong and whose
+ * message tells the user what to do about it. Extra headers, an HTTP proxy and
+ * custom CA certificates come from the `rubin.http.*` settings.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as tls from 'tls';
+import { Duplex } from 'stream';
+import { logger } from './logger';
+
+export type LLMErrorKind =
+    | 'unreachable'
+    | 'unauthorized'
+    | 'modelNotFound'
+    | 'outOfMemory'
+    | 'timeout'
+    | 'aborted'
+    | 'invalidOutput' // The reply did not match the requested JSON schema
+    | 'server';
+
+/**
+ * A failed request to the model server. The message is written to be shown
+ * to the user as is; `kind` lets callers react to particular failures.
+ */
+export class LLMRequestError extends Error {
+    constructor(
+        readonly kind: LLMErrorKind,
+        message: string,
+        readonly status?: number,
+        readonly retryable = false
+    ) {
+        super(message);
+        // Callers treat errors named AbortError as a cancellation, not a failure
+        this.name = kind === 'aborted' ? 'AbortError' : 'LLMRequestError';
+    }
+}
+
+export interface HttpRequest {
+    url: URL;
+    method: 'GET' | 'POST' | 'DELETE';
+    body?: unknown;
+    headers?: http.OutgoingHttpHeaders; // Applied over `rubin.http.headers`
+    signal?: AbortSignal;
+    timeoutMs?: number; // Overrides the configured timeout
+}
+
+interface HttpSettings {
+    headers: Record<string, string>;
+    proxy: string;
+    caCertificates: string[];
+    requestTimeoutMs: number;
+    streamTimeoutMs: number;
+    retries: number;
+}
+
+interface Agents {
+    http: http.Agent;
+    https: https.Agent;
+    tunnel?: https.Agent; // HTTPS through the proxy
+    proxy?: URL;
+}
+
+const RETRY_BASE_DELAY_MS = 500;
+// Network errors meaning nothing answered at the server's address
+const UNREACHABLE_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN']);
+const CERTIFICATE_CODES = new Set([
+    'SELF_SIGNED_CERT_IN_CHAIN',
+    'DEPTH_ZERO_SELF_SIGNED_CERT',
+    'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+    'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+    'CERT_HAS_EXPIRED',
+]);
+const OUT_OF_MEMORY_PATTERN = /out of memory|requires more system memory|insufficient memory|cudaMalloc failed|failed to allocate/i;
+const MODEL_NOT_FOUND_PATTERN = /model\b.*\bnot found|model\b.*\bdoes not exist|no such model/i;
+
+let cachedAgents: { key: string; agents: Agents } | undefined;
+const connectionFailures = new vscode.EventEmitter<URL>();
+
+/**
+ * Fired with the request URL when a server could not be reached, after any retries
+ */
+export const onConnectionFailure = connectionFailures.event;
+
+/**
+ * Send a request and parse the JSON reply. Endpoints that answer with an
+ * empty body, such as Ollama's /api/delete, resolve to `{}`.
+ */
+export async function requestJson<T>(request: HttpRequest): Promise<T> {
+    const settings = getHttpSettings();
+    const text = await withRetries(request, settings, () => send(request, settings, settings.requestTimeoutMs));
+
+    try {
+        return (text ? JSON.parse(text) : {}) as T;
+    } catch {
+        throw new LLMRequestError('server', `${request.url.host} sent a reply that is not JSON. Check rubin.serverUrl and rubin.provider.`);
+    }
+}
+
+/**
+ * Send a request and hand the reply body to `onData` as it arrives. The
+ * stream timeout applies to the wait for each chunk, not to the whole reply.
+ */
+export async function requestStream(request: HttpRequest, onData: (chunk: string) => void): Promise<void> {
+    const settings = getHttpSettings();
+    await withRetries(request, settings, () => send(request, settings, settings.streamTimeoutMs, onData));
+}
+
+/**
+ * Error for a failure the server reported, from the HTTP status and the
+ * message it gave. Also used for errors reported inside a streamed reply.
+ */
+export function responseError(url: URL, status: number, message: string): LLMRequestError {
+    const detail = message ? `: ${message}` : '';
+
+    if (status === 401 || status === 403) {
+        return new LLMRequestError(
+            'unauthorized',
+            `${url.host} rejected the request (${status})${detail}. Check the API key (Rubin: Set API Key) or rubin.http.headers.`,
+            status
+        );
+    }
+    if (MODEL_NOT_FOUND_PATTERN.test(message)) {
+        return new LLMRequestError(
+            'modelNotFound',
+            `${message}. Pull it with "Rubin: Pull Model" or choose another with "Rubin: Select Model".`,
+            status
+        );
+    }
+    if (OUT_OF_MEMORY_PATTERN.test(message)) {
+        return new LLMRequestError(
+            'outOfMemory',
+            `${url.host} ran out of memory loading the model${detail}. Try a smaller model or lower rubin.maxContextLength.`,
+            status
+        );
+    }
+    if (status === 404) {
+        return new LLMRequestError(
+            'server',
+            `${url.host} has no ${url.pathname} endpoint. Check rubin.serverUrl and rubin.provider.`,
+            status
+        );
+    }
+    if (status === 503) {
+        // Ollama answers 503 while a model is loading or its queue is full
+        return new LLMRequestError('server', `${url.host} is busy (503)${detail}. Try again in a moment.`, status, true);
+    }
+    return new LLMRequestError('server', `${url.host} returned ${status}${detail}`, status);
+}
+
+function getHttpSettings(): HttpSettings {
+    const config = vscode.workspace.getConfiguration('rubin.http');
+    return {
+        headers: config.get<Record<string, string>>('headers', {}),
+        proxy: config.get<string>('proxy', '').trim(),
+        caCertificates: config.get<string[]>('caCertificates', []),
+        requestTimeoutMs: config.get<number>('requestTimeoutMs', 30000),
+        streamTimeoutMs: config.get<number>('streamTimeoutMs', 120000),
+        retries: Math.max(0, config.get<number>('retries', 2)),
+    };
+}
+
+/**
+ * Run an attempt, retrying with exponential backoff while it fails in a way
+ * that may clear up on its own: connection refused or a 503
+ */
+async function withRetries<T>(request: HttpRequest, settings: HttpSettings, attempt: () => Promise<T>): Promise<T> {
+    for (let retry = 0; ; retry++) {
+        try {
+            return await attempt();
+        } catch (error) {
+            if (!(error instanceof LLMRequestError) || !error.retryable || retry >= settings.retries) {
+                if (error instanceof LLMRequestError && error.kind === 'unreachable') {
+                    connectionFailures.fire(request.url);
+                }
+                throw error;
+            }
+            const delayMs = RETRY_BASE_DELAY_MS * 2 ** retry;
+            logger.debug(`${request.method} ${request.url.pathname} failed (${error.message}), retrying in ${delayMs}ms`);
+            await delay(delayMs, request.signal);
+        }
+    }
+}
+
+function send(
+    request: HttpRequest,
+    settings: HttpSettings,
+    defaultTimeoutMs: number,
+    onData?: (chunk: string) => void
+): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const { url, signal } = request;
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+
+        const body = request.body === undefined ? undefined : JSON.stringify(request.body);
+        const headers: http.OutgoingHttpHeaders = {
+            'Content-Type': 'application/json',
+            ...settings.headers,
+            ...request.headers,
+        };
+        if (body !== undefined) {
+            headers['Content-Length'] = Buffer.byteLength(body);
+        }
+
+        let settled = false;
+        const finish = (error: Error | undefined, text = '') => {
+            if (settled) { return; }
+            settled = true;
+            signal?.removeEventListener('abort', onAbort);
+            if (error) {
+                reject(error);
+            } else {
+                resolve(text);
+            }
+        };
+        const onAbort = () => {
+            req.destroy();
+            finish(abortError());
+        };
+
+        const agents = getAgents(settings);
+        const req = openRequest(url, request.method, headers, agents, (res) => {
+            const status = res.statusCode ?? 0;
+            const ok = status >= 200 && status < 300;
+            let text = '';
+
+            res.setEncoding('utf8');
+            res.on('data', (chunk: string) => {
+                if (ok && onData) {
+                    onData(chunk);
+                } else {
+                    text += chunk;
+                }
+            });
+            res.on('end', () => finish(ok ? undefined : responseError(url, status, extractMessage(text)), text));
+            res.on('error', (error) => finish(networkError(url, error, agents.proxy)));
+        });
+
+        const timeoutMs = request.timeoutMs ?? defaultTimeoutMs;
+        req.setTimeout(timeoutMs, () => {
+            req.destroy();
+            finish(new LLMRequestError(
+                'timeout',
+                `${url.host} did not respond within ${Math.round(timeoutMs / 1000)}s. A large model may still be ` +
+                    'loading - try again, or raise rubin.http.requestTimeoutMs and rubin.http.streamTimeoutMs.'
+            ));
+        });
+        req.on('error', (error) => finish(networkError(url, error, agents.proxy)));
+        signal?.addEventListener('abort', onAbort);
+
+        if (body !== undefined) {
+            req.write(body);
+        }
+        req.end();
+    });
+}
+
+function openRequest(
+    url: URL,
+    method: string,
+    headers: http.OutgoingHttpHeaders,
+    agents: Agents,
+    onResponse: (res: http.IncomingMessage) => void
+): http.ClientRequest {
+    const isHttps = url.protocol === 'https:';
+    const proxy = agents.proxy && !isLoopback(url.hostname) ? agents.proxy : undefined;
+
+    if (proxy && !isHttps) {
+        // Plain HTTP goes to the proxy as a request for the absolute URL
+        return http.request({
+            hostname: proxy.hostname,
+            port: proxy.port || 80,
+            path: url.href,
+            method,
+            headers: { ...headers, 'Host': url.host, ...proxyAuthorization(proxy) },
+            agent: agents.http,
+        }, onResponse);
+    }
+
+    return (isHttps ? https : http).request({
+        hostname: url.hostname,
+        port: url.port || (isHttps ? 443 : 80),
+        path: url.pathname + url.search,
+        method,
+        headers,
+        agent: isHttps ? (proxy ? agents.tunnel : agents.https) : agents.http,
+    }, onResponse);
+}
+
+/**
+ * Keep-alive agents for the current proxy and certificate settings, rebuilt
+ * when those change
+ */
+function getAgents(settings: HttpSettings): Agents {
+    const key = JSON.stringify([settings.proxy, settings.caCertificates]);
+    if (cachedAgents?.key === key) {
+        return cachedAgents.agents;
+    }
+
+    const ca = loadCertificates(settings.caCertificates);
+    let proxy: URL | undefined;
+    if (settings.proxy) {
+        try {
+            proxy = new URL(settings.proxy);
+        } catch {
+            logger.warn(`Ignoring invalid rubin.http.proxy: ${settings.proxy}`);
+        }
+    }
+
+    const agents: Agents = {
+        http: new http.Agent({ keepAlive: true }),
+        https: new https.Agent({ keepAlive: true, ca }),
+        tunnel: proxy ? new TunnelAgent(proxy, { keepAlive: true, ca }) : undefined,
+        proxy,
+    };
+    cachedAgents = { key, agents };
+    return agents;
+}
+
+/**
+ * Trust the system roots plus the configured certificate files, or just the
+ * defaults when none are configured
+ */
+function loadCertificates(paths: string[]): string[] | undefined {
+    const custom: string[] = [];
+    for (const file of paths) {
+        try {
+            custom.push(fs.readFileSync(file, 'utf8'));
+        } catch (error) {
+            logger.warn(`Cannot read CA certificate ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+    return custom.length > 0 ? [...tls.rootCertificates, ...custom] : undefined;
+}
+
+/**
+ * HTTPS agent that opens a CONNECT tunnel through an HTTP proxy and runs TLS
+ * to the server over it
+ */
+class TunnelAgent extends https.Agent {
+    constructor(private readonly proxy: URL, options: https.AgentOptions) {
+        super(options);
+    }
+
+    createConnection(
+        options: https.RequestOptions,
+        callback?: (err: Error | null, stream: Duplex) => void
+    ): Duplex | null | undefined {
+        // Node ignores the stream argument when an error is passed
+        const fail = (error: Error) => (callback as ((err: Error) => void) | undefined)?.(error);
+        const hostname = options.hostname ?? options.host ?? 'localhost';
+        const target = `${hostname}:${options.port ?? 443}`;
+
+        const connect = http.request({
+            hostname: this.proxy.hostname,
+            port: this.proxy.port || 80,
+            method: 'CONNECT',
+            path: target,
+            headers: { 'Host': target, ...proxyAuthorization(this.proxy) },
+        });
+
+        connect.once('connect', (res, socket) => {
+            if (res.statusCode !== 200) {
+                socket.destroy();
+                fail(new Error(`Proxy ${this.proxy.host} refused to connect to ${target} (${res.statusCode})`));
+                return;
+            }
+            callback?.(null, tls.connect({
+                socket,
+                servername: hostname,
+                ca: this.options.ca,
+                rejectUnauthorized: this.options.rejectUnauthorized,
+            }));
+        });
+        connect.once('error', fail);
+        connect.end();
+
+        return undefined;
+    }
+}
+
+function proxyAuthorization(proxy: URL): http.OutgoingHttpHeaders {
+    if (!proxy.username) {
+        return {};
+    }
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+/**
+ * Local servers never go through the proxy
+ */
+function isLoopback(hostname: string): boolean {
+    return hostname === 'localhost' || hostname === '[::1]' || hostname.startsWith('127.');
+}
+
+function networkError(url: URL, error: Error, proxy: URL | undefined): LLMRequestError {
+    const code = (error as NodeJS.ErrnoException).code ?? '';
+    const via = proxy && !isLoopback(url.hostname) ? ` through proxy ${proxy.host}` : '';
+
+    if (UNREACHABLE_CODES.has(code)) {
+        return new LLMRequestError(
+            'unreachable',
+            `Cannot reach ${url.host}${via} (${code}). Make sure the server is running and rubin.serverUrl is correct.`,
+            undefined,
+            // Refused usually means the server is still starting
+            code === 'ECONNREFUSED'
+        );
+    }
+    if (CERTIFICATE_CODES.has(code)) {
+        return new LLMRequestError(
+            'unreachable',
+            `The certificate of ${url.host} is not trusted (${code}). Add its CA to rubin.http.caCertificates.`
+        );
+    }
+    return new LLMRequestError('unreachable', `Request to ${url.host}${via} failed: ${error.message}`);
+}
+
+/**
+ * The error message from a JSON error body - `{"error": "..."}` from Ollama,
+ * `{"error": {"message": "..."}}` from OpenAI-compatible servers - or the raw text
+ */
+function extractMessage(body: string): string {
+    try {
+        const parsed = JSON.parse(body) as { error?: string | { message?: string } };
+        const error = typeof parsed.error === 'string' ? parsed.error : parsed.error?.message;
+        if (error) {
+            return error;
+        }
+    } catch {
+        // Not JSON, use the text itself
+    }
+    return body.trim().slice(0, 200);
+}
+
+function abortError(): LLMRequestError {
+    return new LLMRequestError('aborted', 'Request aborted');
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
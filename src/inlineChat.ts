@@ -1,7 +1,17 @@
 import * as vscode from 'vscode';
-import { getConfig } from './config';
-import { getOllamaClient } from './ollamaClient';
+import { getConfigForRole } from './config';
+import { ChatMessage } from './ollamaClient';
+import { getLLMClient } from './llmProvider';
 import { logger } from './logger';
+import { JsonSchema } from './structuredOutput';
+
+const EDIT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        code: { type: 'string', minLength: 1, description: 'The complete modified code' },
+    },
+    required: ['code'],
+};
 
 /**
  * Provides inline editing capabilities - edit code in place with AI
@@ -56,8 +66,8 @@ export class InlineChatProvider {
         editor: vscode.TextEditor,
         range: vscode.Selection
     ): Promise<void> {
-        const config = getConfig();
-        const client = getOllamaClient(config.serverUrl);
+        const config = getConfigForRole('edit');
+        const client = getLLMClient(config);
 
         // Show progress
         await vscode.window.withProgress(
@@ -70,16 +80,21 @@ export class InlineChatProvider {
                 const abortController = new AbortController();
                 token.onCancellationRequested(() => abortController.abort());
 
-                const prompt = this.buildEditPrompt(originalCode, language, instruction);
+                const messages = this.buildEditMessages(originalCode, language, instruction);
 
                 try {
                     progress.report({ increment: 30, message: 'Thinking...' });
 
-                    const response = await client.generateChat(prompt, {
-                        ...config,
-                        maxTokens: 2048,
-                        temperature: 0.2,
-                    });
+                    const response = await client.chatJson<{ code: string }>(
+                        messages,
+                        EDIT_SCHEMA,
+                        config,
+                        {
+                            num_predict: 2048,
+                            temperature: 0.2,
+                        },
+                        abortController.signal
+                    );
 
                     if (!response || token.isCancellationRequested) {
                         return;
@@ -87,13 +102,7 @@ export class InlineChatProvider {
 
                     progress.report({ increment: 50, message: 'Applying edit...' });
 
-                    // Extract code from response
-                    const newCode = this.extractCode(response, language);
-
-                    if (!newCode) {
-                        vscode.window.showErrorMessage('Could not extract code from response');
-                        return;
-                    }
+                    const newCode = response.code;
 
                     // Show diff and ask for confirmation
                     const accepted = await this.showDiffAndConfirm(
@@ -125,55 +134,25 @@ export class InlineChatProvider {
     }
 
     /**
-     * Build the prompt for code editing
+     * Build the chat messages for code editing
      */
-    private buildEditPrompt(code: string, language: string, instruction: string): string {
-        return `You are a code editor. Your task is to modify code according to the user's instruction.
+    private buildEditMessages(code: string, language: string, instruction: string): ChatMessage[] {
+        const system = `You are a code editor. Your task is to modify code according to the user's instruction.
 
 IMPORTANT RULES:
-1. Return ONLY the modified code, nothing else
-2. Do NOT include explanations before or after the code
-3. Do NOT include markdown code fence markers (\`\`\`) 
-4. Preserve the original indentation style
-5. Make minimal changes to accomplish the task
-6. Keep the code working and syntactically correct
-
-INSTRUCTION: ${instruction}
-
-ORIGINAL CODE (${language}):
-${code}
-
-MODIFIED CODE:`;
-    }
-
-    /**
-     * Extract code from LLM response
-     */
-    private extractCode(response: string, language: string): string | null {
-        let code = response.trim();
-
-        // Remove markdown code blocks if present
-        const codeBlockRegex = new RegExp(`\`\`\`(?:${language})?\\n?([\\s\\S]*?)\\n?\`\`\``, 'i');
-        const match = code.match(codeBlockRegex);
-        if (match) {
-            code = match[1];
-        }
-
-        // Also try generic code block
-        const genericMatch = code.match(/```\n?([\s\S]*?)\n?```/);
-        if (genericMatch && !match) {
-            code = genericMatch[1];
-        }
-
-        // Clean up
-        code = code.trim();
-
-        // Validate we got something
-        if (!code || code.length < 1) {
-            return null;
-        }
-
-        return code;
+1. Reply with a JSON object whose "code" field holds the complete modified code
+2. Do NOT include explanations or markdown code fence markers (\`\`\`) in the code
+3. Preserve the original indentation style
+4. Make minimal changes to accomplish the task
+5. Keep the code working and syntactically correct`;
+
+        return [
+            { role: 'system', content: system },
+            {
+                role: 'user',
+                content: `INSTRUCTION: ${instruction}\n\nORIGINAL CODE (${language}):\n${code}`,
+            },
+        ];
     }
 
     /**
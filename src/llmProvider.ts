@@ -0,0 +1,92 @@
+import { getConfig, getApiKey, LocalCopilotConfig, ProviderType } from './config';
+import {
+    getOllamaClient,
+    ChatMessage,
+    CompletionOptions,
+    GenerateOptions,
+    StreamCallbacks,
+    ToolDefinition,
+} from './ollamaClient';
+import { getOpenAIClient } from './openaiClient';
+import { getEndpointMonitor } from './endpoints';
+import { JsonSchema } from './structuredOutput';
+
+/**
+ * Common surface for the model backends Rubin can talk to.
+ * OllamaClient speaks Ollama's native API; OpenAICompatibleClient speaks
+ * the OpenAI /v1 protocol used by llama.cpp server, vLLM, LM Studio and LocalAI.
+ *
+ * Chat methods throw an LLMRequestError explaining why the server could not
+ * answer, and resolve to null when cancelled. Completions, embeddings and
+ * model listing fail quietly with null or an empty result.
+ */
+export interface LLMProvider {
+    readonly type: ProviderType;
+
+    testConnection(): Promise<void>; // Throws an LLMRequestError saying why the server can't be reached
+    getAvailableModels(): Promise<string[]>;
+
+    generateCompletion(
+        prompt: string,
+        config: LocalCopilotConfig,
+        options?: CompletionOptions,
+        signal?: AbortSignal
+    ): Promise<string | null>;
+    chat(
+        messages: ChatMessage[],
+        config: LocalCopilotConfig,
+        options?: GenerateOptions,
+        signal?: AbortSignal
+    ): Promise<string | null>;
+    chatStream(
+        messages: ChatMessage[],
+        config: LocalCopilotConfig,
+        callbacks: StreamCallbacks,
+        options?: GenerateOptions,
+        signal?: AbortSignal
+    ): Promise<void>;
+    supportsTools(model: string): Promise<boolean>;
+    chatWithTools(
+        messages: ChatMessage[],
+        tools: ToolDefinition[],
+        config: LocalCopilotConfig,
+        options?: GenerateOptions,
+        signal?: AbortSignal
+    ): Promise<ChatMessage | null>;
+    // Reply parsed as JSON matching `schema`, asking once more if it doesn't
+    chatJson<T>(
+        messages: ChatMessage[],
+        schema: JsonSchema,
+        config: LocalCopilotConfig,
+        options?: GenerateOptions,
+        signal?: AbortSignal
+    ): Promise<T | null>;
+
+    generateEmbedding(text: string, model?: string): Promise<number[] | null>;
+    cancelPendingRequests(): void;
+}
+
+/**
+ * Human-readable backend name for status and error messages
+ */
+export function getProviderLabel(type: ProviderType): string {
+    return type === 'openai' ? 'OpenAI-compatible server' : 'Ollama';
+}
+
+/**
+ * Client for the provider selected by `rubin.provider`, pointed at the
+ * endpoint that serves the config's model
+ */
+export function getLLMClient(config: LocalCopilotConfig = getConfig()): LLMProvider {
+    return getClientForUrl(config.provider, getEndpointMonitor().selectEndpoint(config).url);
+}
+
+/**
+ * Client for the given provider at a specific server URL
+ */
+export function getClientForUrl(provider: ProviderType, serverUrl: string): LLMProvider {
+    if (provider === 'openai') {
+        return getOpenAIClient(serverUrl, getApiKey());
+    }
+    return getOllamaClient(serverUrl);
+}
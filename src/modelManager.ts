@@ -0,0 +1,321 @@
+/**
+ * Commands for managing the models installed on the Ollama server: pull,
+ * delete, inspect, list loaded models and preload them before first use
+ */
+
+import * as vscode from 'vscode';
+import { getConfig, LocalCopilotConfig, MODEL_ROLES } from './config';
+import { getEndpointMonitor } from './endpoints';
+import {
+    getOllamaClient,
+    getContextLength,
+    getKeepAlive,
+    OllamaClient,
+    PullProgress,
+    RunningModel,
+    ShowResponse,
+} from './ollamaClient';
+import { logger } from './logger';
+
+/**
+ * Whether Ollama is the selected provider, with a message when it isn't -
+ * these commands use Ollama-only endpoints
+ */
+function usesOllama(config: LocalCopilotConfig): boolean {
+    if (config.provider !== 'ollama') {
+        vscode.window.showWarningMessage('Model management is only available with the Ollama provider.');
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Ollama client for the server to manage. With several endpoints the user
+ * picks one; null when they cancel or another provider is selected.
+ */
+async function getModelClient(): Promise<OllamaClient | null> {
+    const config = getConfig();
+    if (!usesOllama(config)) {
+        return null;
+    }
+    if (config.endpoints.length === 1) {
+        return getOllamaClient(config.endpoints[0].url);
+    }
+
+    const monitor = getEndpointMonitor();
+    const picked = await vscode.window.showQuickPick(
+        config.endpoints.map(endpoint => {
+            const health = monitor.getHealth(endpoint);
+            return {
+                label: endpoint.name,
+                description: endpoint.url,
+                detail: !health ? undefined : health.healthy ? 'Available' : `Unavailable: ${health.error}`,
+                endpoint,
+            };
+        }),
+        { placeHolder: 'Select the Ollama server' }
+    );
+    return picked ? getOllamaClient(picked.endpoint.url) : null;
+}
+
+async function pickInstalledModel(client: OllamaClient, placeHolder: string): Promise<string | undefined> {
+    const models = await client.getAvailableModels();
+    if (models.length === 0) {
+        vscode.window.showWarningMessage('No models found. Make sure Ollama is running and has models installed.');
+        return undefined;
+    }
+    return vscode.window.showQuickPick(models, { placeHolder });
+}
+
+async function pullModel(): Promise<void> {
+    const client = await getModelClient();
+    if (!client) {
+        return;
+    }
+
+    const model = (await vscode.window.showInputBox({
+        prompt: 'Model to pull from the Ollama library',
+        placeHolder: 'e.g. qwen2.5-coder:7b',
+        ignoreFocusOut: true,
+    }))?.trim();
+    if (!model) {
+        return;
+    }
+
+    try {
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Pulling ${model}`,
+                cancellable: true,
+            },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+
+                // Layers appear one after another, so the overall total grows as the pull goes on
+                const layers = new Map<string, { total: number; completed: number }>();
+                let reported = 0;
+
+                await client.pullModel(model, (update: PullProgress) => {
+                    if (update.digest && update.total) {
+                        layers.set(update.digest, { total: update.total, completed: update.completed ?? 0 });
+                    }
+
+                    const total = [...layers.values()].reduce((sum, layer) => sum + layer.total, 0);
+                    const completed = [...layers.values()].reduce((sum, layer) => sum + layer.completed, 0);
+                    const percent = total > 0 ? Math.floor((completed / total) * 100) : 0;
+
+                    progress.report({
+                        increment: Math.max(0, percent - reported),
+                        message: total > 0
+                            ? `${update.status} (${formatBytes(completed)} of ${formatBytes(total)})`
+                            : update.status,
+                    });
+                    reported = Math.max(reported, percent);
+                }, abortController.signal);
+            }
+        );
+
+        const action = await vscode.window.showInformationMessage(`Pulled ${model}`, 'Select Model');
+        if (action === 'Select Model') {
+            vscode.commands.executeCommand('rubin.selectModel');
+        }
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+            vscode.window.showInformationMessage(`Cancelled pulling ${model}`);
+            return;
+        }
+        logger.error(`Failed to pull ${model}`, error);
+        vscode.window.showErrorMessage(
+            `Failed to pull ${model}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+    }
+}
+
+async function deleteModel(): Promise<void> {
+    const client = await getModelClient();
+    if (!client) {
+        return;
+    }
+
+    const model = await pickInstalledModel(client, 'Select a model to delete');
+    if (!model) {
+        return;
+    }
+
+    const config = getConfig();
+    const usedBy = MODEL_ROLES.filter(role => config.models[role] === model);
+    const warning = usedBy.length > 0 ? ` It is currently used for: ${usedBy.join(', ')}.` : '';
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Delete ${model} from the Ollama server?${warning}`,
+        { modal: true },
+        'Delete'
+    );
+    if (confirm !== 'Delete') {
+        return;
+    }
+
+    try {
+        await client.deleteModel(model);
+        vscode.window.showInformationMessage(`Deleted ${model}`);
+    } catch (error) {
+        vscode.window.showErrorMessage(
+            `Failed to delete ${model}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+    }
+}
+
+async function showModelInfo(): Promise<void> {
+    const client = await getModelClient();
+    if (!client) {
+        return;
+    }
+
+    const model = await pickInstalledModel(client, 'Select a model to inspect');
+    if (!model) {
+        return;
+    }
+
+    const info = await client.showModel(model);
+    if (!info) {
+        vscode.window.showErrorMessage(`Could not read details for ${model}`);
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+        content: formatModelInfo(model, info),
+        language: 'markdown',
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+}
+
+function formatModelInfo(model: string, info: ShowResponse): string {
+    const contextLength = getContextLength(info);
+    const rows: Array<[string, string | undefined]> = [
+        ['Family', info.details?.family],
+        ['Parameters', info.details?.parameter_size],
+        ['Quantization', info.details?.quantization_level],
+        ['Format', info.details?.format],
+        ['Context length', contextLength?.toLocaleString()],
+        ['Capabilities', info.capabilities?.join(', ')],
+    ];
+
+    const sections = [
+        `# ${model}`,
+        [
+            '| | |',
+            '|---|---|',
+            ...rows.map(([label, value]) => `| ${label} | ${value ?? '-'} |`),
+        ].join('\n'),
+    ];
+    if (info.parameters) {
+        sections.push(`## Parameters\n\n\`\`\`\n${info.parameters.trim()}\n\`\`\``);
+    }
+    if (info.template) {
+        sections.push(`## Template\n\n\`\`\`\n${info.template.trim()}\n\`\`\``);
+    }
+
+    return sections.join('\n\n') + '\n';
+}
+
+async function showRunningModels(): Promise<void> {
+    const client = await getModelClient();
+    if (!client) {
+        return;
+    }
+
+    const running = await client.getRunningModels();
+    if (running.length === 0) {
+        vscode.window.showInformationMessage('No models are loaded. Run "Rubin: Warm Up Models" to load them.');
+        return;
+    }
+
+    await vscode.window.showQuickPick(running.map(formatRunningModel), {
+        placeHolder: `${running.length} model${running.length === 1 ? '' : 's'} loaded`,
+        title: 'Rubin: Loaded Models',
+    });
+}
+
+function formatRunningModel(model: RunningModel): vscode.QuickPickItem {
+    const expires = new Date(model.expires_at);
+    // A model kept loaded indefinitely reports an expiry hundreds of years away
+    const unload = expires.getFullYear() > 2100 ? 'stays loaded' : `unloads at ${expires.toLocaleTimeString()}`;
+    const details = [model.details?.parameter_size, model.details?.quantization_level].filter(Boolean).join(' ');
+
+    return {
+        label: model.name,
+        description: `${formatBytes(model.size_vram)} VRAM, ${formatBytes(model.size - model.size_vram)} RAM`,
+        detail: details ? `${details} · ${unload}` : unload,
+    };
+}
+
+/**
+ * Load every configured model so the first request doesn't wait for a cold
+ * start. Shown as a notification when run as a command and in the status
+ * bar when run on startup.
+ */
+export async function warmUpModels(
+    location: vscode.ProgressLocation = vscode.ProgressLocation.Notification
+): Promise<void> {
+    const config = getConfig();
+    if (!usesOllama(config)) {
+        return;
+    }
+
+    const monitor = getEndpointMonitor();
+    const keepAlive = getKeepAlive(config);
+    // Several roles usually share a model; load each one once, noting the
+    // ones used only for embeddings, which cannot be loaded through /api/generate
+    const models = new Map<string, boolean>();
+    for (const role of MODEL_ROLES) {
+        const model = config.models[role];
+        models.set(model, role === 'embedding' && (models.get(model) ?? true));
+    }
+
+    const failed: string[] = [];
+    let reason = '';
+    await vscode.window.withProgress(
+        { location, title: 'Rubin: Warming up models' },
+        async (progress) => {
+            for (const [model, embedding] of models) {
+                progress.report({ message: model, increment: 100 / models.size });
+                try {
+                    // Load on the endpoint that requests for the model will go to
+                    const client = getOllamaClient(monitor.selectEndpoint(config, model).url);
+                    await client.loadModel(model, keepAlive, embedding);
+                } catch (error) {
+                    logger.warn(`Failed to warm up ${model}`, error);
+                    failed.push(model);
+                    reason = error instanceof Error ? error.message : 'Unknown error';
+                }
+            }
+        }
+    );
+
+    if (failed.length > 0) {
+        vscode.window.showWarningMessage(`Could not load ${failed.join(', ')}: ${reason}`);
+    } else if (location === vscode.ProgressLocation.Notification) {
+        const kept = keepAlive === undefined ? '' : ` (kept loaded for ${config.keepAlive})`;
+        vscode.window.showInformationMessage(`Loaded ${models.size} model${models.size === 1 ? '' : 's'}${kept}`);
+    }
+    logger.info(`Warmed up ${models.size - failed.length}/${models.size} models`);
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes >= 1024 ** 3) {
+        return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+    }
+    return `${Math.round(bytes / 1024 ** 2)} MB`;
+}
+
+export function registerModelCommands(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rubin.pullModel', pullModel),
+        vscode.commands.registerCommand('rubin.deleteModel', deleteModel),
+        vscode.commands.registerCommand('rubin.showModelInfo', showModelInfo),
+        vscode.commands.registerCommand('rubin.showRunningModels', showRunningModels),
+        vscode.commands.registerCommand('rubin.warmUpModels', () => warmUpModels())
+    );
+}
@@ -0,0 +1,534 @@
+/**
+ * Next-edit suggestions
+ *
+ * Keeps a short history of the edits made to each file and, once the user
+ * pauses, asks the model where the same kind of change is still needed in
+ * that file - another use of a renamed parameter, an object literal missing
+ * a field just added to its interface. The prediction is highlighted in the
+ * editor, offered as an inline suggestion at its location, and
+ * `rubin.jumpToNextEdit` moves the cursor there.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getConfig, getConfigForRole } from './config';
+import { getLLMClient } from './llmProvider';
+import { ChatMessage } from './ollamaClient';
+import { JsonSchema } from './structuredOutput';
+import { logger } from './logger';
+
+/**
+ * A change to a run of whole lines, coalesced while the user keeps typing on them
+ */
+interface RecordedEdit {
+    line: number; // First changed line, 0-based
+    before: string;
+    after: string;
+    timestamp: number;
+}
+
+export interface NextEditSuggestion {
+    uri: string;
+    range: vscode.Range; // Text to replace, always on a single line
+    original: string;
+    replacement: string;
+}
+
+const NEXT_EDIT_DELAY_MS = 1000;
+const MAX_EDITS_PER_FILE = 10;
+const MAX_EDIT_LINES = 20; // Lines of each edit shown to the model
+const CONTEXT_LINES = 200; // Lines of the file shown on either side of the last edit
+const MAX_TRACKED_CHARS = 500_000;
+// Models often miscount line numbers by one or two
+const LINE_TOLERANCE = 2;
+const CONTEXT_KEY = 'rubin.nextEditAvailable';
+export const JUMP_TO_NEXT_EDIT_COMMAND = 'rubin.jumpToNextEdit';
+
+const NEXT_EDIT_SYSTEM_PROMPT = `You predict the next edit a developer will make to a file.
+You are given their most recent edits and the current file with line numbers.
+Find ONE place elsewhere in the file that needs the matching change - for example another use of a renamed symbol, or a call or object literal that needs a newly added parameter or field.
+
+Reply with ONLY a JSON object, no explanation:
+{"line": <line number>, "original": "<exact text on that line to replace>", "replacement": "<new text>"}
+Both "original" and "replacement" must be on a single line.
+If no further edit is needed, reply with {"line": null}`;
+
+interface PredictionReply {
+    line: number | null;
+    original?: string;
+    replacement?: string;
+}
+
+const PREDICTION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        line: { type: ['integer', 'null'], description: 'Line number of the edit, or null when none is needed' },
+        original: { type: 'string', description: 'Exact text on that line to replace' },
+        replacement: { type: 'string', description: 'New text' },
+    },
+    required: ['line'],
+};
+
+export class NextEditManager implements vscode.Disposable {
+    private history = new Map<string, RecordedEdit[]>();
+    private snapshots = new Map<string, string>(); // Document text before the next change
+    private suggestion: NextEditSuggestion | null = null;
+    private timer: NodeJS.Timeout | undefined;
+    private abortController: AbortController | null = null;
+    private readonly decoration = vscode.window.createTextEditorDecorationType({
+        backgroundColor: new vscode.ThemeColor('diffEditor.removedTextBackground'),
+        after: {
+            color: new vscode.ThemeColor('editorCodeLens.foreground'),
+            margin: '0 0 0 1em',
+        },
+    });
+
+    /**
+     * Record an edit and schedule a prediction once typing pauses
+     */
+    handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+        const document = event.document;
+        const uri = document.uri.toString();
+
+        if (!this.isEnabled()) {
+            if (this.snapshots.size > 0 || this.suggestion) {
+                this.reset();
+            }
+            return;
+        }
+        if (!this.isTracked(document)) {
+            this.snapshots.delete(uri);
+            return;
+        }
+        if (event.contentChanges.length === 0) {
+            return;
+        }
+
+        const before = this.snapshots.get(uri);
+        const after = document.getText();
+        this.snapshots.set(uri, after);
+        if (before === undefined) {
+            // Only when the document just became small enough to track
+            return;
+        }
+
+        const edit = diffLines(before, after);
+        if (!edit) {
+            return;
+        }
+        this.recordEdit(uri, edit);
+        this.updateSuggestion(document, edit);
+
+        this.cancelPrediction();
+        const isUndoRedo = event.reason === vscode.TextDocumentChangeReason.Undo ||
+            event.reason === vscode.TextDocumentChangeReason.Redo;
+        if (!isUndoRedo) {
+            this.timer = setTimeout(() => {
+                void this.predict(document);
+            }, NEXT_EDIT_DELAY_MS);
+        }
+    }
+
+    /**
+     * Keep a document's text from when it opens, so its first edit can be
+     * compared against it
+     */
+    handleDocumentOpen(document: vscode.TextDocument): void {
+        if (this.isEnabled() && this.isTracked(document)) {
+            this.snapshots.set(document.uri.toString(), document.getText());
+        }
+    }
+
+    /**
+     * Snapshot the documents already open, on activation or once the feature
+     * is turned on
+     */
+    snapshotOpenDocuments(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            if (!this.snapshots.has(document.uri.toString())) {
+                this.handleDocumentOpen(document);
+            }
+        }
+    }
+
+    handleDocumentClose(document: vscode.TextDocument): void {
+        const uri = document.uri.toString();
+        this.snapshots.delete(uri);
+        this.history.delete(uri);
+        if (this.suggestion?.uri === uri) {
+            this.setSuggestion(null);
+        }
+    }
+
+    /**
+     * The pending suggestion as an inline completion item, when the cursor is on it
+     */
+    getInlineCompletion(document: vscode.TextDocument, position: vscode.Position): vscode.InlineCompletionItem | null {
+        const suggestion = this.suggestion;
+        if (!suggestion || suggestion.uri !== document.uri.toString() || !suggestion.range.contains(position)) {
+            return null;
+        }
+
+        // VS Code only shows a replacement if the text before the cursor still matches it
+        const typed = document.getText(new vscode.Range(suggestion.range.start, position));
+        if (!suggestion.replacement.startsWith(typed)) {
+            return null;
+        }
+
+        return new vscode.InlineCompletionItem(suggestion.replacement, suggestion.range);
+    }
+
+    /**
+     * Move the cursor to where the suggestion starts to differ and show it
+     */
+    async jumpToSuggestion(): Promise<void> {
+        const suggestion = this.suggestion;
+        if (!suggestion) {
+            vscode.window.showInformationMessage('No next edit suggestion available');
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(suggestion.uri));
+        const editor = await vscode.window.showTextDocument(document);
+        const position = suggestion.range.start.translate(
+            0,
+            getCommonPrefixLength(suggestion.original, suggestion.replacement)
+        );
+
+        editor.selection = new vscode.Selection(position, position);
+        editor.revealRange(suggestion.range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        await vscode.commands.executeCommand('editor.action.inlineSuggest.trigger');
+    }
+
+    /**
+     * Show the suggestion's highlight in whichever editors display its document
+     */
+    refreshDecorations(): void {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const suggestion = this.suggestion;
+            if (suggestion && editor.document.uri.toString() === suggestion.uri) {
+                editor.setDecorations(this.decoration, [{
+                    range: suggestion.range,
+                    hoverMessage: `Rubin next edit: \`${suggestion.replacement}\``,
+                    renderOptions: { after: { contentText: `→ ${suggestion.replacement}` } },
+                }]);
+            } else {
+                editor.setDecorations(this.decoration, []);
+            }
+        }
+    }
+
+    dispose(): void {
+        this.reset();
+        this.decoration.dispose();
+    }
+
+    private isEnabled(): boolean {
+        const config = getConfig();
+        return config.enabled && config.nextEditSuggestions;
+    }
+
+    private isTracked(document: vscode.TextDocument): boolean {
+        return (document.uri.scheme === 'file' || document.uri.scheme === 'untitled') &&
+            document.getText().length <= MAX_TRACKED_CHARS;
+    }
+
+    private recordEdit(uri: string, edit: RecordedEdit): void {
+        const edits = this.history.get(uri) ?? [];
+        const last = edits[edits.length - 1];
+        const lineDelta = countLines(edit.after) - countLines(edit.before);
+
+        // Earlier edits below this one have moved
+        for (const previous of edits) {
+            if (previous.line > edit.line) {
+                previous.line += lineDelta;
+            }
+        }
+
+        if (last && last.line === edit.line && last.after === edit.before) {
+            // Still typing on the same lines - extend the previous edit
+            last.after = edit.after;
+            last.timestamp = edit.timestamp;
+            if (last.before === last.after) {
+                edits.pop();
+            }
+        } else {
+            edits.push(edit);
+            if (edits.length > MAX_EDITS_PER_FILE) {
+                edits.shift();
+            }
+        }
+
+        this.history.set(uri, edits);
+    }
+
+    /**
+     * Keep the suggestion in step with an edit to its document, dropping it
+     * once its text has changed (including when it was just applied)
+     */
+    private updateSuggestion(document: vscode.TextDocument, edit: RecordedEdit): void {
+        const suggestion = this.suggestion;
+        if (!suggestion || suggestion.uri !== document.uri.toString()) {
+            return;
+        }
+
+        let line = suggestion.range.start.line;
+        if (line > edit.line + countLines(edit.before) - 1) {
+            line += countLines(edit.after) - countLines(edit.before);
+        }
+
+        this.setSuggestion(line < document.lineCount
+            ? locateSuggestion(document, line, suggestion.original, suggestion.replacement, 0)
+            : null);
+    }
+
+    private async predict(document: vscode.TextDocument): Promise<void> {
+        const uri = document.uri.toString();
+        const edits = (this.history.get(uri) ?? []).filter(edit => !isWhitespaceOnly(edit));
+        if (edits.length === 0 || document.isClosed) {
+            return;
+        }
+
+        const abortController = new AbortController();
+        this.abortController = abortController;
+        const lastEdit = edits[edits.length - 1];
+
+        try {
+            const config = getConfigForRole('edit');
+            const reply = await getLLMClient(config).chatJson<PredictionReply>(
+                this.buildMessages(document, edits),
+                PREDICTION_SCHEMA,
+                config,
+                { num_predict: 256, temperature: 0.1 },
+                abortController.signal
+            );
+            if (!reply || abortController.signal.aborted) {
+                return;
+            }
+
+            const prediction = toPrediction(reply);
+            if (!prediction) {
+                logger.debug('No next edit predicted');
+                return;
+            }
+
+            const suggestion = locateSuggestion(
+                document,
+                prediction.line - 1,
+                prediction.original,
+                prediction.replacement,
+                LINE_TOLERANCE
+            );
+            // The line just edited is where the user already is
+            const editedLines = countLines(lastEdit.after);
+            if (!suggestion ||
+                (suggestion.range.start.line >= lastEdit.line && suggestion.range.start.line < lastEdit.line + editedLines)) {
+                logger.debug('Discarded next edit prediction', prediction);
+                return;
+            }
+
+            logger.debug(`Next edit suggested at line ${suggestion.range.start.line + 1}`);
+            this.setSuggestion(suggestion);
+        } catch (error) {
+            logger.debug(`Next edit prediction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            if (this.abortController === abortController) {
+                this.abortController = null;
+            }
+        }
+    }
+
+    private buildMessages(document: vscode.TextDocument, edits: RecordedEdit[]): ChatMessage[] {
+        const lastEdit = edits[edits.length - 1];
+        const startLine = Math.max(0, lastEdit.line - CONTEXT_LINES);
+        const endLine = Math.min(document.lineCount - 1, lastEdit.line + CONTEXT_LINES);
+
+        const numbered: string[] = [];
+        for (let line = startLine; line <= endLine; line++) {
+            numbered.push(`${line + 1}| ${document.lineAt(line).text}`);
+        }
+
+        const diffs = edits.map(edit => [
+            `@@ line ${edit.line + 1} @@`,
+            ...formatDiffLines('-', edit.before),
+            ...formatDiffLines('+', edit.after),
+        ].join('\n'));
+
+        return [
+            { role: 'system', content: NEXT_EDIT_SYSTEM_PROMPT },
+            {
+                role: 'user',
+                content: `File: ${path.basename(document.fileName)} (${document.languageId})
+
+Recent edits, oldest first:
+${diffs.join('\n')}
+
+Current file:
+${numbered.join('\n')}`,
+            },
+        ];
+    }
+
+    private setSuggestion(suggestion: NextEditSuggestion | null): void {
+        this.suggestion = suggestion;
+        void vscode.commands.executeCommand('setContext', CONTEXT_KEY, suggestion !== null);
+        this.refreshDecorations();
+    }
+
+    private cancelPrediction(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.abortController?.abort();
+        this.abortController = null;
+    }
+
+    private reset(): void {
+        this.cancelPrediction();
+        this.history.clear();
+        this.snapshots.clear();
+        this.setSuggestion(null);
+    }
+}
+
+/**
+ * The whole lines that differ between two versions of a document
+ */
+function diffLines(before: string, after: string): RecordedEdit | null {
+    if (before === after) {
+        return null;
+    }
+
+    const maxCommon = Math.min(before.length, after.length);
+    let prefix = 0;
+    while (prefix < maxCommon && before[prefix] === after[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < maxCommon - prefix &&
+        before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    // Widen to whole lines; the common suffix ends each line at the same distance
+    const start = prefix > 0 ? before.lastIndexOf('\n', prefix - 1) + 1 : 0;
+    const lineEnd = (text: string) => {
+        const end = text.indexOf('\n', text.length - suffix);
+        return end < 0 ? text.length : end;
+    };
+
+    return {
+        line: countLines(before.substring(0, start)) - 1,
+        before: before.substring(start, lineEnd(before)),
+        after: after.substring(start, lineEnd(after)),
+        timestamp: Date.now(),
+    };
+}
+
+/**
+ * The edit a schema-valid reply predicts, if it is one that can be shown
+ */
+function toPrediction(reply: PredictionReply): { line: number; original: string; replacement: string } | null {
+    const { line, original, replacement } = reply;
+    if (line === null ||
+        original === undefined ||
+        replacement === undefined ||
+        !original ||
+        original === replacement ||
+        original.includes('\n') ||
+        replacement.includes('\n')) {
+        return null;
+    }
+    return { line, original, replacement };
+}
+
+/**
+ * Find the original text on the given line, or the nearest line within the
+ * tolerance, and turn it into a suggestion
+ */
+function locateSuggestion(
+    document: vscode.TextDocument,
+    line: number,
+    original: string,
+    replacement: string,
+    tolerance: number
+): NextEditSuggestion | null {
+    for (let distance = 0; distance <= tolerance; distance++) {
+        for (const candidate of distance === 0 ? [line] : [line - distance, line + distance]) {
+            if (candidate < 0 || candidate >= document.lineCount) {
+                continue;
+            }
+            const column = document.lineAt(candidate).text.indexOf(original);
+            if (column >= 0) {
+                return {
+                    uri: document.uri.toString(),
+                    range: new vscode.Range(candidate, column, candidate, column + original.length),
+                    original,
+                    replacement,
+                };
+            }
+        }
+    }
+    return null;
+}
+
+function formatDiffLines(marker: string, text: string): string[] {
+    if (!text) {
+        return [];
+    }
+    const lines = text.split('\n');
+    const shown = lines.slice(0, MAX_EDIT_LINES).map(line => `${marker} ${line}`);
+    if (lines.length > MAX_EDIT_LINES) {
+        shown.push(`${marker} ... (${lines.length - MAX_EDIT_LINES} more lines)`);
+    }
+    return shown;
+}
+
+function isWhitespaceOnly(edit: RecordedEdit): boolean {
+    return edit.before.replace(/\s+/g, '') === edit.after.replace(/\s+/g, '');
+}
+
+function countLines(text: string): number {
+    return text.split('\n').length;
+}
+
+function getCommonPrefixLength(a: string, b: string): number {
+    let length = 0;
+    while (length < a.length && length < b.length && a[length] === b[length]) {
+        length++;
+    }
+    return length;
+}
+
+let managerInstance: NextEditManager | null = null;
+
+/**
+ * Create the next-edit manager, start following edits and register the jump
+ * command. Call once on activation.
+ */
+export function initNextEditSuggestions(context: vscode.ExtensionContext): NextEditManager {
+    managerInstance = new NextEditManager();
+    const manager = managerInstance;
+    manager.snapshotOpenDocuments();
+
+    context.subscriptions.push(
+        manager,
+        vscode.workspace.onDidChangeTextDocument(event => manager.handleDocumentChange(event)),
+        vscode.workspace.onDidOpenTextDocument(document => manager.handleDocumentOpen(document)),
+        vscode.workspace.onDidCloseTextDocument(document => manager.handleDocumentClose(document)),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('rubin.enabled') || event.affectsConfiguration('rubin.nextEditSuggestions')) {
+                manager.snapshotOpenDocuments();
+            }
+        }),
+        vscode.window.onDidChangeVisibleTextEditors(() => manager.refreshDecorations()),
+        vscode.commands.registerCommand(JUMP_TO_NEXT_EDIT_COMMAND, () => manager.jumpToSuggestion())
+    );
+
+    return manager;
+}
+
+export function getNextEditManager(): NextEditManager | null {
+    return managerInstance;
+}
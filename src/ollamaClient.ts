@@ -1,25 +1,105 @@
-import * as https from 'https';
-import * as http from 'http';
-import { LocalCopilotConfig } from './config';
+import { getConfig, LocalCopilotConfig } from './config';
+import { LLMProvider } from './llmProvider';
+import { HttpRequest, LLMRequestError, requestJson, requestStream, responseError } from './httpTransport';
+import { getGenerateOptions, getResponseFormat, ResponseFormat } from './generationOptions';
+import { logger } from './logger';
+import { chatStructured, JsonSchema } from './structuredOutput';
+
+export interface GenerateOptions {
+    num_ctx?: number; // Context window; Ollama defaults to 2048 and silently drops the rest
+    num_predict?: number;
+    temperature?: number;
+    top_p?: number;
+    top_k?: number;
+    min_p?: number;
+    repeat_penalty?: number;
+    repeat_last_n?: number;
+    seed?: number;
+    stop?: string[];
+    mirostat?: 0 | 1 | 2; // Sampling that targets a perplexity instead of top_k/top_p
+    mirostat_tau?: number;
+    mirostat_eta?: number;
+}
 
 export interface GenerateRequest {
     model: string;
     prompt: string;
+    suffix?: string; // Text after the cursor; the model template builds the FIM prompt
+    raw?: boolean; // Skip the model template, the prompt is already formatted
     stream: boolean;
-    options?: {
-        num_predict?: number;
-        temperature?: number;
-        top_p?: number;
-        stop?: string[];
+    keep_alive?: KeepAlive;
+    format?: ResponseFormat;
+    options?: GenerateOptions;
+}
+
+/**
+ * Per-request settings for inline completions
+ */
+export interface CompletionOptions {
+    suffix?: string;
+    raw?: boolean;
+    stop?: string[]; // Added to the default completion stop sequences
+    temperature?: number; // Overrides config.temperature
+    seed?: number;
+    // Called with the text streamed so far; returning an index ends the
+    // request there, -1 keeps generating
+    findBoundary?: (text: string) => number;
+    onFirstToken?: () => void;
+}
+
+export const COMPLETION_STOP_SEQUENCES = ['```', '// End', '# End'];
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+    role: ChatRole;
+    content: string;
+    tool_calls?: ChatToolCall[];
+    tool_name?: string; // Set on role 'tool' messages
+}
+
+/**
+ * JSON-schema tool definition sent in the `tools` field of /api/chat
+ */
+export interface ToolDefinition {
+    type: 'function';
+    function: {
+        name: string;
+        description: string;
+        parameters: {
+            type: 'object';
+            properties: Record<string, { type: string; description?: string }>;
+            required: string[];
+        };
+    };
+}
+
+/**
+ * Structured tool call returned by the model in `message.tool_calls`
+ */
+export interface ChatToolCall {
+    id?: string; // Only used by OpenAI-compatible servers
+    function: {
+        name: string;
+        arguments: Record<string, unknown> | string;
     };
 }
 
-export interface StreamChunk {
+export interface ChatRequest {
+    model: string;
+    messages: ChatMessage[];
+    stream: boolean;
+    tools?: ToolDefinition[];
+    keep_alive?: KeepAlive;
+    format?: ResponseFormat;
+    options?: GenerateOptions;
+}
+
+export interface ChatResponse {
     model: string;
     created_at: string;
-    response: string;
+    message: ChatMessage;
     done: boolean;
-    context?: number[];
     total_duration?: number;
     load_duration?: number;
     prompt_eval_count?: number;
@@ -55,347 +135,578 @@ export interface TagsResponse {
     models: ModelInfo[];
 }
 
-export class OllamaClient {
-    private serverUrl: string;
+export interface ModelDetails {
+    format?: string;
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+}
+
+export interface ShowResponse {
+    modelfile?: string;
+    template?: string;
+    parameters?: string;
+    capabilities?: string[];
+    details?: ModelDetails;
+    model_info?: Record<string, unknown>; // Architecture keys such as `llama.context_length`
+}
+
+/**
+ * A model currently loaded by the server, from /api/ps
+ */
+export interface RunningModel {
+    name: string;
+    model: string;
+    size: number; // Bytes in memory in total
+    size_vram: number; // Bytes of that in GPU memory
+    expires_at: string;
+    details?: ModelDetails;
+}
+
+/**
+ * One line of /api/pull progress; `total` and `completed` are set while a layer downloads
+ */
+export interface PullProgress {
+    status: string;
+    digest?: string;
+    total?: number;
+    completed?: number;
+}
+
+// Ollama takes a duration string ("30m") or a number of seconds; negative keeps the model loaded
+export type KeepAlive = string | number;
+
+/**
+ * `keep_alive` from the generation settings, otherwise `rubin.keepAlive` in the
+ * form Ollama expects, or undefined for the server default
+ */
+export function getKeepAlive(config: LocalCopilotConfig): KeepAlive | undefined {
+    if (config.generationOptions.keep_alive !== undefined) {
+        return config.generationOptions.keep_alive;
+    }
+    const value = config.keepAlive.trim();
+    if (!value) {
+        return undefined;
+    }
+    return /^-?\d+$/.test(value) ? Number(value) : value;
+}
+
+/**
+ * Context window the model was trained with, from its /api/show model info
+ */
+export function getContextLength(info: ShowResponse): number | undefined {
+    const key = Object.keys(info.model_info ?? {}).find(name => name.endsWith('.context_length'));
+    const value = key ? info.model_info?.[key] : undefined;
+    return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Tidy a raw completion for use as inline ghost text
+ */
+export function cleanCompletionResponse(response: string): string {
+    // Leading whitespace and newlines position the suggestion, so only the end is trimmed
+    return response
+        .replace(/^```\w*\n?/, '')
+        .replace(/\n?```\s*$/, '')
+        .trimEnd();
+}
+
+/**
+ * Model options for an inline completion: `rubin.maxTokens` and
+ * `rubin.temperature` under the user's generation settings, with the
+ * candidate's own temperature and seed and the completion stop sequences
+ */
+export function getCompletionOptions(config: LocalCopilotConfig, options: CompletionOptions): GenerateOptions {
+    const generateOptions = getGenerateOptions(config, {
+        num_predict: config.maxTokens,
+        temperature: config.temperature,
+    });
+    return {
+        ...generateOptions,
+        temperature: options.temperature ?? generateOptions.temperature,
+        seed: options.seed ?? generateOptions.seed,
+        stop: [...COMPLETION_STOP_SEQUENCES, ...(generateOptions.stop || []), ...(options.stop || [])],
+    };
+}
+
+/**
+ * Collect a streamed completion, aborting the request as soon as
+ * `options.findBoundary` reports that the suggestion is complete
+ */
+export async function streamCompletion(
+    stream: (callbacks: StreamCallbacks) => Promise<void>,
+    controller: AbortController,
+    options: CompletionOptions
+): Promise<string> {
+    let text = '';
+    let stopped = false;
+
+    try {
+        await stream({
+            onToken: (token) => {
+                if (stopped) { return; }
+                if (!text) {
+                    options.onFirstToken?.();
+                }
+                text += token;
+
+                const boundary = options.findBoundary ? options.findBoundary(text) : -1;
+                if (boundary >= 0) {
+                    text = text.slice(0, boundary);
+                    stopped = true;
+                    controller.abort();
+                }
+            },
+        });
+    } catch (error) {
+        // Stopping early surfaces as an abort; anything else is a real failure
+        if (!stopped) {
+            throw error;
+        }
+    }
+
+    return text;
+}
+
+// Loading a large model from disk can take well over the usual request timeout
+const MODEL_LOAD_TIMEOUT_MS = 300000;
+
+export class OllamaClient implements LLMProvider {
+    readonly type = 'ollama';
+    private readonly serverUrl: string;
     private abortController: AbortController | null = null;
+    private toolSupport = new Map<string, boolean>();
+    private contextLengths = new Map<string, number | undefined>();
 
     constructor(serverUrl: string = 'http://localhost:11434') {
         this.serverUrl = serverUrl;
     }
 
-    updateServerUrl(serverUrl: string): void {
-        this.serverUrl = serverUrl;
+    async testConnection(): Promise<void> {
+        await this.request<TagsResponse>('/api/tags', 'GET');
     }
 
-    async checkConnection(): Promise<boolean> {
+    async getAvailableModels(): Promise<string[]> {
         try {
             const response = await this.request<TagsResponse>('/api/tags', 'GET');
-            return response !== null;
+            if (response.models) {
+                return response.models.map(m => m.name);
+            }
+            return [];
         } catch {
-            return false;
+            return [];
         }
     }
 
-    async getAvailableModels(): Promise<string[]> {
+    /**
+     * Whether a model accepts native `tools` on /api/chat. Newer Ollama
+     * versions report this in /api/show capabilities; older ones only
+     * expose the template, which references .Tools when supported.
+     * The answer is cached per model.
+     */
+    async supportsTools(model: string): Promise<boolean> {
+        const cached = this.toolSupport.get(model);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        let supported = false;
         try {
-            const response = await this.request<TagsResponse>('/api/tags', 'GET');
-            if (response && response.models) {
-                return response.models.map(m => m.name);
+            const response = await this.request<ShowResponse>('/api/show', 'POST', { model });
+            if (response.capabilities) {
+                supported = response.capabilities.includes('tools');
+            } else if (response.template) {
+                supported = response.template.includes('.Tools');
             }
-            return [];
         } catch {
-            return [];
+            supported = false;
         }
+
+        this.toolSupport.set(model, supported);
+        return supported;
     }
 
+    /**
+     * Context window the model supports according to /api/show, cached per model
+     */
+    async getModelContextLength(model: string): Promise<number | undefined> {
+        if (this.contextLengths.has(model)) {
+            return this.contextLengths.get(model);
+        }
+
+        const info = await this.showModel(model);
+        const length = info ? getContextLength(info) : undefined;
+        // Only cache answers; a server that is down may know the model later
+        if (info) {
+            this.contextLengths.set(model, length);
+        }
+        return length;
+    }
+
+    /**
+     * Stream a completion from /api/generate. Starting a new completion
+     * aborts the previous one, so only the latest keystroke is served.
+     */
     async generateCompletion(
         prompt: string,
         config: LocalCopilotConfig,
+        options: CompletionOptions = {},
         signal?: AbortSignal
     ): Promise<string | null> {
+        this.cancelPendingRequests();
+        if (signal?.aborted) {
+            return null;
+        }
+
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        this.abortController = controller;
+        signal?.addEventListener('abort', abort);
+
         const request: GenerateRequest = {
             model: config.model,
             prompt: prompt,
+            suffix: options.suffix,
+            raw: options.raw,
+            stream: true,
+            keep_alive: getKeepAlive(config),
+            options: getCompletionOptions(config, options),
+        };
+
+        try {
+            const text = await streamCompletion(
+                (callbacks) => this.streamRequest<GenerateResponse>(
+                    '/api/generate',
+                    request,
+                    (data) => data.response,
+                    callbacks,
+                    controller.signal
+                ),
+                controller,
+                options
+            );
+            return text ? cleanCompletionResponse(text) : null;
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                return null;
+            }
+            // Completions fail quietly; the next keystroke tries again
+            logger.debug('Ollama completion failed', error);
+            return null;
+        } finally {
+            signal?.removeEventListener('abort', abort);
+            if (this.abortController === controller) {
+                this.abortController = null;
+            }
+        }
+    }
+
+    /**
+     * Send a role-tagged conversation to /api/chat so the model's own chat
+     * template is applied. Returns the assistant's reply.
+     */
+    async chat(
+        messages: ChatMessage[],
+        config: LocalCopilotConfig,
+        options: GenerateOptions = {},
+        signal?: AbortSignal
+    ): Promise<string | null> {
+        const request: ChatRequest = {
+            model: config.model,
+            messages: messages,
             stream: false,
-            options: {
-                num_predict: config.maxTokens,
-                temperature: config.temperature,
-                stop: ['\n\n', '```', '// End', '# End'],
-            },
+            keep_alive: getKeepAlive(config),
+            format: getResponseFormat(config), // Set only by chatJson()
+            options: getGenerateOptions(config, {
+                num_predict: 1024,
+                temperature: 0.7,
+                ...options,
+            }),
         };
 
         try {
-            const response = await this.request<GenerateResponse>(
-                '/api/generate',
+            const response = await this.request<ChatResponse>(
+                '/api/chat',
                 'POST',
                 request,
                 signal
             );
 
-            if (response && response.response) {
-                return this.cleanCompletionResponse(response.response);
-            }
-            return null;
+            return response.message?.content ? response.message.content.trim() : null;
         } catch (error) {
             if (error instanceof Error && error.name === 'AbortError') {
                 return null;
             }
-            console.error('Ollama generate error:', error);
-            return null;
+            throw error;
         }
     }
 
-    async generateChat(
-        prompt: string,
+    /**
+     * Chat with the reply constrained to a JSON schema and validated against it
+     */
+    async chatJson<T>(
+        messages: ChatMessage[],
+        schema: JsonSchema,
         config: LocalCopilotConfig,
+        options: GenerateOptions = {},
         signal?: AbortSignal
-    ): Promise<string | null> {
-        const request: GenerateRequest = {
+    ): Promise<T | null> {
+        return chatStructured<T>(this, messages, schema, config, options, signal);
+    }
+
+    /**
+     * Chat with native tool calling. Returns the full assistant message so
+     * callers can read any structured `tool_calls` alongside the text.
+     */
+    async chatWithTools(
+        messages: ChatMessage[],
+        tools: ToolDefinition[],
+        config: LocalCopilotConfig,
+        options: GenerateOptions = {},
+        signal?: AbortSignal
+    ): Promise<ChatMessage | null> {
+        const request: ChatRequest = {
             model: config.model,
-            prompt: prompt,
+            messages: messages,
             stream: false,
-            options: {
-                num_predict: 1024, // More tokens for chat responses
-                temperature: 0.7, // Slightly more creative for chat
-            },
+            keep_alive: getKeepAlive(config),
+            tools: tools,
+            options: getGenerateOptions(config, {
+                num_predict: 1024,
+                temperature: 0.7,
+                ...options,
+            }),
         };
 
         try {
-            const response = await this.request<GenerateResponse>(
-                '/api/generate',
+            const response = await this.request<ChatResponse>(
+                '/api/chat',
                 'POST',
                 request,
                 signal
             );
-
-            if (response && response.response) {
-                return response.response.trim();
-            }
-            return null;
+            return response.message || null;
         } catch (error) {
             if (error instanceof Error && error.name === 'AbortError') {
                 return null;
             }
-            console.error('Ollama chat error:', error);
-            return null;
+            throw error;
         }
     }
 
     /**
-     * Generate a streaming chat response - tokens are delivered in real-time
+     * Streaming variant of chat() - tokens are delivered in real-time
      */
-    async generateChatStream(
-        prompt: string,
+    async chatStream(
+        messages: ChatMessage[],
         config: LocalCopilotConfig,
         callbacks: StreamCallbacks,
+        options: GenerateOptions = {},
         signal?: AbortSignal
     ): Promise<void> {
-        const request: GenerateRequest = {
+        const request: ChatRequest = {
             model: config.model,
-            prompt: prompt,
+            messages: messages,
             stream: true,
-            options: {
+            keep_alive: getKeepAlive(config),
+            options: getGenerateOptions(config, {
                 num_predict: 2048,
                 temperature: 0.7,
-            },
+                ...options,
+            }),
         };
 
-        return new Promise((resolve, reject) => {
-            const url = new URL('/api/generate', this.serverUrl);
-            const isHttps = url.protocol === 'https:';
-            const lib = isHttps ? https : http;
-
-            const options: http.RequestOptions = {
-                hostname: url.hostname,
-                port: url.port || (isHttps ? 443 : 80),
-                path: url.pathname,
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                timeout: 120000, // 2 minutes for streaming
-            };
-
-            let fullResponse = '';
-
-            const req = lib.request(options, (res) => {
-                res.setEncoding('utf8');
-                let buffer = '';
-
-                res.on('data', (chunk: string) => {
-                    buffer += chunk;
-                    
-                    // Process complete JSON lines
-                    const lines = buffer.split('\n');
-                    buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-                    for (const line of lines) {
-                        if (!line.trim()) { continue; }
-                        
-                        try {
-                            const data = JSON.parse(line) as StreamChunk;
-                            
-                            if (data.response) {
-                                fullResponse += data.response;
-                                callbacks.onToken?.(data.response);
-                            }
-                            
-                            if (data.done) {
-                                callbacks.onComplete?.(fullResponse);
-                                resolve();
-                            }
-                        } catch (parseError) {
-                            // Ignore parse errors for incomplete chunks
-                        }
-                    }
-                });
-
-                res.on('end', () => {
-                    // Process any remaining buffer
-                    if (buffer.trim()) {
-                        try {
-                            const data = JSON.parse(buffer) as StreamChunk;
-                            if (data.response) {
-                                fullResponse += data.response;
-                                callbacks.onToken?.(data.response);
-                            }
-                        } catch { /* ignore */ }
-                    }
-                    callbacks.onComplete?.(fullResponse);
-                    resolve();
-                });
-            });
-
-            req.on('error', (error) => {
-                callbacks.onError?.(error);
-                reject(error);
-            });
-
-            req.on('timeout', () => {
-                req.destroy();
-                const error = new Error('Request timeout');
-                callbacks.onError?.(error);
-                reject(error);
-            });
-
-            // Handle abort signal
-            if (signal) {
-                signal.addEventListener('abort', () => {
-                    req.destroy();
-                    const abortError = new Error('Request aborted');
-                    abortError.name = 'AbortError';
-                    reject(abortError);
-                });
-            }
-
-            req.write(JSON.stringify(request));
-            req.end();
-        });
+        return this.streamRequest<ChatResponse>(
+            '/api/chat',
+            request,
+            (data) => data.message?.content,
+            callbacks,
+            signal
+        );
     }
 
     /**
      * Generate embeddings for semantic search (if model supports it)
      */
-    async generateEmbedding(text: string, model: string = 'nomic-embed-text'): Promise<number[] | null> {
+    async generateEmbedding(text: string, model: string = getConfig().models.embedding): Promise<number[] | null> {
         try {
             const response = await this.request<{ embedding: number[] }>(
                 '/api/embeddings',
                 'POST',
                 { model, prompt: text }
             );
-            return response?.embedding || null;
+            return response.embedding || null;
         } catch {
             return null;
         }
     }
 
-    cancelPendingRequests(): void {
-        if (this.abortController) {
-            this.abortController.abort();
-            this.abortController = null;
-        }
+    /**
+     * Download a model, reporting each progress line from /api/pull
+     */
+    async pullModel(
+        model: string,
+        onProgress: (progress: PullProgress) => void,
+        signal?: AbortSignal
+    ): Promise<void> {
+        await this.streamRequest<PullProgress>(
+            '/api/pull',
+            { model, stream: true },
+            (data) => {
+                onProgress(data);
+                return undefined;
+            },
+            {},
+            signal
+        );
     }
 
-    private cleanCompletionResponse(response: string): string {
-        // Remove any leading/trailing whitespace
-        let cleaned = response.trim();
+    async deleteModel(model: string): Promise<void> {
+        await this.request<unknown>('/api/delete', 'DELETE', { model });
+    }
 
-        // Remove common artifacts from code completion
-        // If the response starts with the prompt continuation, keep it
-        // Remove markdown code blocks if present
-        cleaned = cleaned.replace(/^```\w*\n?/, '').replace(/\n?```$/, '');
+    /**
+     * Parameters, template, details and architecture info of an installed model
+     */
+    async showModel(model: string): Promise<ShowResponse | null> {
+        try {
+            return await this.request<ShowResponse>('/api/show', 'POST', { model });
+        } catch {
+            return null;
+        }
+    }
 
-        // Limit to a reasonable number of lines for inline completion
-        const lines = cleaned.split('\n');
-        if (lines.length > 10) {
-            cleaned = lines.slice(0, 10).join('\n');
+    async getRunningModels(): Promise<RunningModel[]> {
+        try {
+            const response = await this.request<{ models: RunningModel[] }>('/api/ps', 'GET');
+            return response.models ?? [];
+        } catch {
+            return [];
         }
+    }
 
-        return cleaned;
+    /**
+     * Load a model into memory without generating anything, keeping it there
+     * for `keepAlive`. Embedding models are loaded through /api/embed.
+     */
+    async loadModel(model: string, keepAlive: KeepAlive | undefined, embedding = false): Promise<void> {
+        if (embedding) {
+            await this.request<unknown>(
+                '/api/embed',
+                'POST',
+                { model, input: 'warm up', keep_alive: keepAlive },
+                undefined,
+                MODEL_LOAD_TIMEOUT_MS
+            );
+        } else {
+            await this.request<unknown>(
+                '/api/generate',
+                'POST',
+                { model, prompt: '', stream: false, keep_alive: keepAlive },
+                undefined,
+                MODEL_LOAD_TIMEOUT_MS
+            );
+        }
+    }
+
+    cancelPendingRequests(): void {
+        if (this.abortController) {
+            this.abortController.abort();
+            this.abortController = null;
+        }
     }
 
-    private async request<T>(
+    /**
+     * POST a streaming request and read the newline-delimited JSON reply,
+     * handing each chunk's text to the callbacks as it arrives
+     */
+    private async streamRequest<T>(
         path: string,
-        method: 'GET' | 'POST',
-        body?: unknown,
+        body: unknown,
+        extractToken: (data: T) => string | undefined,
+        callbacks: StreamCallbacks,
         signal?: AbortSignal
-    ): Promise<T | null> {
-        return new Promise((resolve, reject) => {
-            const url = new URL(path, this.serverUrl);
-            const isHttps = url.protocol === 'https:';
-            const lib = isHttps ? https : http;
-
-            const options: http.RequestOptions = {
-                hostname: url.hostname,
-                port: url.port || (isHttps ? 443 : 80),
-                path: url.pathname,
-                method: method,
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                timeout: 30000,
-            };
-
-            const req = lib.request(options, (res) => {
-                let data = '';
-
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
-
-                res.on('end', () => {
-                    try {
-                        if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-                            const parsed = JSON.parse(data) as T;
-                            resolve(parsed);
-                        } else {
-                            console.error(`Ollama API error: ${res.statusCode} - ${data}`);
-                            resolve(null);
-                        }
-                    } catch (parseError) {
-                        console.error('Failed to parse Ollama response:', parseError);
-                        resolve(null);
-                    }
-                });
-            });
+    ): Promise<void> {
+        const request: HttpRequest = { url: new URL(path, this.serverUrl), method: 'POST', body, signal };
+        let fullResponse = '';
+        let buffer = '';
+        // Errors that happen after the reply has started arrive as an `error` line
+        let streamError: LLMRequestError | undefined;
+
+        const handleLine = (line: string) => {
+            if (!line.trim() || streamError) { return; }
+
+            let data: T & { error?: string };
+            try {
+                data = JSON.parse(line) as T & { error?: string };
+            } catch {
+                // Ignore parse errors for incomplete chunks
+                return;
+            }
 
-            req.on('error', (error) => {
-                console.error('Ollama request error:', error);
-                reject(error);
-            });
+            if (data.error) {
+                streamError = responseError(request.url, 500, data.error);
+                return;
+            }
+
+            const token = extractToken(data);
+            if (token) {
+                fullResponse += token;
+                callbacks.onToken?.(token);
+            }
+        };
+
+        try {
+            await requestStream(request, (chunk) => {
+                buffer += chunk;
 
-            req.on('timeout', () => {
-                req.destroy();
-                reject(new Error('Request timeout'));
+                // Process complete JSON lines
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+                for (const line of lines) {
+                    handleLine(line);
+                }
             });
 
-            // Handle abort signal
-            if (signal) {
-                signal.addEventListener('abort', () => {
-                    req.destroy();
-                    const abortError = new Error('Request aborted');
-                    abortError.name = 'AbortError';
-                    reject(abortError);
-                });
+            // Process any remaining buffer
+            handleLine(buffer);
+            if (streamError) {
+                throw streamError;
             }
-
-            if (body) {
-                req.write(JSON.stringify(body));
+        } catch (error) {
+            if (error instanceof Error && error.name !== 'AbortError') {
+                callbacks.onError?.(error);
             }
+            throw error;
+        }
 
-            req.end();
-        });
+        callbacks.onComplete?.(fullResponse);
+    }
+
+    /**
+     * Send a request to the server. Failures throw an LLMRequestError that
+     * explains what went wrong.
+     */
+    private request<T>(
+        path: string,
+        method: HttpRequest['method'],
+        body?: unknown,
+        signal?: AbortSignal,
+        timeoutMs?: number
+    ): Promise<T> {
+        return requestJson<T>({ url: new URL(path, this.serverUrl), method, body, signal, timeoutMs });
     }
 }
 
-// Singleton instance
-let clientInstance: OllamaClient | null = null;
+// One client per server, so each keeps its own model caches
+const clients = new Map<string, OllamaClient>();
 
-export function getOllamaClient(serverUrl?: string): OllamaClient {
-    if (!clientInstance) {
-        clientInstance = new OllamaClient(serverUrl);
-    } else if (serverUrl) {
-        clientInstance.updateServerUrl(serverUrl);
+export function getOllamaClient(serverUrl: string): OllamaClient {
+    let client = clients.get(serverUrl);
+    if (!client) {
+        client = new OllamaClient(serverUrl);
+        clients.set(serverUrl, client);
     }
-    return clientInstance;
+    return client;
 }
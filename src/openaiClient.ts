@@ -0,0 +1,469 @@
+import * as http from 'http';
+import { getConfig, LocalCopilotConfig } from './config';
+import { LLMProvider } from './llmProvider';
+import { HttpRequest, LLMRequestError, requestJson, requestStream } from './httpTransport';
+import { logger } from './logger';
+import {
+    ChatMessage,
+    ChatToolCall,
+    CompletionOptions,
+    GenerateOptions,
+    StreamCallbacks,
+    ToolDefinition,
+    cleanCompletionResponse,
+    getCompletionOptions,
+    streamCompletion,
+} from './ollamaClient';
+import { getGenerateOptions, getResponseFormat, ResponseFormat } from './generationOptions';
+import { chatStructured, JsonSchema } from './structuredOutput';
+
+interface OpenAIMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | null;
+    tool_calls?: Array<{
+        id: string;
+        type: 'function';
+        function: { name: string; arguments: string };
+    }>;
+    tool_call_id?: string;
+}
+
+interface OpenAIChatResponse {
+    choices: Array<{
+        message?: OpenAIMessage;
+        delta?: { content?: string | null };
+        finish_reason?: string | null;
+    }>;
+}
+
+interface OpenAICompletionResponse {
+    choices: Array<{ text: string; finish_reason?: string | null }>;
+}
+
+interface OpenAIModelsResponse {
+    data: Array<{ id: string }>;
+}
+
+interface OpenAIEmbeddingResponse {
+    data: Array<{ embedding: number[] }>;
+}
+
+/**
+ * Client for servers that speak the OpenAI /v1 protocol
+ * (llama.cpp server, vLLM, LM Studio, LocalAI, ...)
+ */
+export class OpenAICompatibleClient implements LLMProvider {
+    readonly type = 'openai';
+    private readonly serverUrl: string;
+    private apiKey: string | undefined;
+    private abortController: AbortController | null = null;
+    private toolSupport = new Map<string, boolean>();
+
+    constructor(serverUrl: string, apiKey?: string) {
+        this.serverUrl = serverUrl;
+        this.apiKey = apiKey;
+    }
+
+    updateApiKey(apiKey: string | undefined): void {
+        this.apiKey = apiKey;
+    }
+
+    async testConnection(): Promise<void> {
+        await this.request<OpenAIModelsResponse>('models', 'GET');
+    }
+
+    async getAvailableModels(): Promise<string[]> {
+        try {
+            const response = await this.request<OpenAIModelsResponse>('models', 'GET');
+            if (response.data) {
+                return response.data.map(m => m.id);
+            }
+            return [];
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Stream a completion from /v1/completions. Starting a new completion
+     * aborts the previous one, so only the latest keystroke is served.
+     */
+    async generateCompletion(
+        prompt: string,
+        config: LocalCopilotConfig,
+        options: CompletionOptions = {},
+        signal?: AbortSignal
+    ): Promise<string | null> {
+        this.cancelPendingRequests();
+        if (signal?.aborted) {
+            return null;
+        }
+
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        this.abortController = controller;
+        signal?.addEventListener('abort', abort);
+
+        // The /v1/completions prompt is never templated, so `raw` needs no flag here
+        const body = {
+            model: config.model,
+            prompt: prompt,
+            suffix: options.suffix,
+            stream: true,
+            ...this.toSamplingParameters(getCompletionOptions(config, options)),
+        };
+
+        try {
+            const text = await streamCompletion(
+                (callbacks) => this.streamRequest<OpenAICompletionResponse>(
+                    'completions',
+                    body,
+                    (data) => data.choices?.[0]?.text,
+                    callbacks,
+                    controller.signal
+                ),
+                controller,
+                options
+            );
+            return text ? cleanCompletionResponse(text) : null;
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                return null;
+            }
+            // Completions fail quietly; the next keystroke tries again
+            logger.debug('OpenAI-compatible completion failed', error);
+            return null;
+        } finally {
+            signal?.removeEventListener('abort', abort);
+            if (this.abortController === controller) {
+                this.abortController = null;
+            }
+        }
+    }
+
+    async chat(
+        messages: ChatMessage[],
+        config: LocalCopilotConfig,
+        options: GenerateOptions = {},
+        signal?: AbortSignal
+    ): Promise<string | null> {
+        try {
+            const response = await this.request<OpenAIChatResponse>(
+                'chat/completions',
+                'POST',
+                this.buildChatBody(messages, config, { num_predict: 1024, temperature: 0.7, ...options }, false),
+                signal
+            );
+
+            const content = response.choices?.[0]?.message?.content;
+            return content ? content.trim() : null;
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async chatStream(
+        messages: ChatMessage[],
+        config: LocalCopilotConfig,
+        callbacks: StreamCallbacks,
+        options: GenerateOptions = {},
+        signal?: AbortSignal
+    ): Promise<void> {
+        return this.streamRequest<OpenAIChatResponse>(
+            'chat/completions',
+            this.buildChatBody(messages, config, { num_predict: 2048, temperature: 0.7, ...options }, true),
+            (data) => data.choices?.[0]?.delta?.content ?? undefined,
+            callbacks,
+            signal
+        );
+    }
+
+    /**
+     * There is no standard way to ask an OpenAI-compatible server whether a
+     * model supports tools, so assume it does until a request proves otherwise
+     */
+    async supportsTools(model: string): Promise<boolean> {
+        return this.toolSupport.get(model) ?? true;
+    }
+
+    /**
+     * Chat with the reply constrained to a JSON schema and validated against it
+     */
+    async chatJson<T>(
+        messages: ChatMessage[],
+        schema: JsonSchema,
+        config: LocalCopilotConfig,
+        options: GenerateOptions = {},
+        signal?: AbortSignal
+    ): Promise<T | null> {
+        return chatStructured<T>(this, messages, schema, config, options, signal);
+    }
+
+    async chatWithTools(
+        messages: ChatMessage[],
+        tools: ToolDefinition[],
+        config: LocalCopilotConfig,
+        options: GenerateOptions = {},
+        signal?: AbortSignal
+    ): Promise<ChatMessage | null> {
+        const body = {
+            ...this.buildChatBody(messages, config, { num_predict: 1024, temperature: 0.7, ...options }, false),
+            tools: tools,
+        };
+
+        let response: OpenAIChatResponse;
+        try {
+            response = await this.request<OpenAIChatResponse>('chat/completions', 'POST', body, signal);
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                return null;
+            }
+            if (!(error instanceof LLMRequestError && (error.status === 400 || error.status === 422))) {
+                throw error;
+            }
+
+            // Server rejected the tools field - remember that and answer without them
+            logger.debug(`${config.model} rejected tools, falling back to plain chat: ${error.message}`);
+            this.toolSupport.set(config.model, false);
+            const content = await this.chat(messages, config, options, signal);
+            return content ? { role: 'assistant', content } : null;
+        }
+
+        const message = response.choices?.[0]?.message;
+        if (!message) {
+            return null;
+        }
+
+        return {
+            role: 'assistant',
+            content: message.content || '',
+            tool_calls: message.tool_calls?.map(call => ({
+                id: call.id,
+                function: { name: call.function.name, arguments: call.function.arguments },
+            })),
+        };
+    }
+
+    async generateEmbedding(text: string, model: string = getConfig().models.embedding): Promise<number[] | null> {
+        try {
+            const response = await this.request<OpenAIEmbeddingResponse>(
+                'embeddings',
+                'POST',
+                { model, input: text }
+            );
+            return response.data?.[0]?.embedding || null;
+        } catch {
+            return null;
+        }
+    }
+
+    cancelPendingRequests(): void {
+        if (this.abortController) {
+            this.abortController.abort();
+            this.abortController = null;
+        }
+    }
+
+    /**
+     * Chat request body. `options` are the call site's defaults, which the
+     * user's generation settings override.
+     */
+    private buildChatBody(
+        messages: ChatMessage[],
+        config: LocalCopilotConfig,
+        options: GenerateOptions,
+        stream: boolean
+    ): Record<string, unknown> {
+        return {
+            model: config.model,
+            messages: this.toOpenAIMessages(messages),
+            stream: stream,
+            // Only chatJson() sets a response format, and never streams
+            ...this.toSamplingParameters(getGenerateOptions(config, options), stream ? undefined : getResponseFormat(config)),
+        };
+    }
+
+    /**
+     * Map Ollama-style options onto OpenAI request fields. top_k, min_p,
+     * repeat_penalty and mirostat are not part of the OpenAI API but are read
+     * by llama.cpp server and vLLM; num_ctx is fixed when those servers start.
+     */
+    private toSamplingParameters(options: GenerateOptions, format?: ResponseFormat): Record<string, unknown> {
+        let responseFormat: Record<string, unknown> | undefined;
+        if (format === 'json') {
+            responseFormat = { type: 'json_object' };
+        } else if (format) {
+            responseFormat = { type: 'json_schema', json_schema: { name: 'response', schema: format } };
+        }
+
+        return {
+            max_tokens: options.num_predict !== undefined && options.num_predict > 0 ? options.num_predict : undefined,
+            temperature: options.temperature,
+            top_p: options.top_p,
+            top_k: options.top_k,
+            min_p: options.min_p,
+            repeat_penalty: options.repeat_penalty,
+            repeat_last_n: options.repeat_last_n,
+            seed: options.seed,
+            stop: options.stop,
+            mirostat: options.mirostat,
+            mirostat_tau: options.mirostat_tau,
+            mirostat_eta: options.mirostat_eta,
+            response_format: responseFormat,
+        };
+    }
+
+    /**
+     * OpenAI links tool results to calls by id; Ollama-style history has no
+     * ids, so assign them in order and pair each tool message with the next
+     * outstanding call
+     */
+    private toOpenAIMessages(messages: ChatMessage[]): OpenAIMessage[] {
+        const pendingIds: string[] = [];
+        let nextId = 0;
+
+        return messages.map((msg): OpenAIMessage => {
+            if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+                return {
+                    role: 'assistant',
+                    content: msg.content || null,
+                    tool_calls: msg.tool_calls.map((call: ChatToolCall) => {
+                        const id = call.id || `call_${nextId++}`;
+                        pendingIds.push(id);
+                        return {
+                            id,
+                            type: 'function',
+                            function: {
+                                name: call.function.name,
+                                arguments: typeof call.function.arguments === 'string'
+                                    ? call.function.arguments
+                                    : JSON.stringify(call.function.arguments),
+                            },
+                        };
+                    }),
+                };
+            }
+
+            if (msg.role === 'tool') {
+                return {
+                    role: 'tool',
+                    content: msg.content,
+                    tool_call_id: pendingIds.shift() || `call_${nextId++}`,
+                };
+            }
+
+            return { role: msg.role, content: msg.content };
+        });
+    }
+
+    /**
+     * Resolve an endpoint against the base URL, accepting base URLs
+     * given with or without the trailing /v1
+     */
+    private buildUrl(endpoint: string): URL {
+        const base = this.serverUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+        return new URL(`${base}/v1/${endpoint}`);
+    }
+
+    private buildHeaders(): http.OutgoingHttpHeaders {
+        const headers: http.OutgoingHttpHeaders = {};
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+        return headers;
+    }
+
+    /**
+     * POST a streaming request and read the server-sent events reply,
+     * handing each delta to the callbacks as it arrives
+     */
+    private async streamRequest<T>(
+        endpoint: string,
+        body: unknown,
+        extractToken: (data: T) => string | undefined,
+        callbacks: StreamCallbacks,
+        signal?: AbortSignal
+    ): Promise<void> {
+        let fullResponse = '';
+        let buffer = '';
+
+        const handleLine = (line: string) => {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) { return; }
+
+            const payload = trimmed.slice('data:'.length).trim();
+            if (payload === '[DONE]') { return; }
+
+            try {
+                const data = JSON.parse(payload) as T;
+                const token = extractToken(data);
+                if (token) {
+                    fullResponse += token;
+                    callbacks.onToken?.(token);
+                }
+            } catch {
+                // Ignore parse errors for incomplete chunks
+            }
+        };
+
+        try {
+            await requestStream(this.buildRequest(endpoint, 'POST', body, signal), (chunk) => {
+                buffer += chunk;
+
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    handleLine(line);
+                }
+            });
+            handleLine(buffer);
+        } catch (error) {
+            if (error instanceof Error && error.name !== 'AbortError') {
+                callbacks.onError?.(error);
+            }
+            throw error;
+        }
+
+        callbacks.onComplete?.(fullResponse);
+    }
+
+    /**
+     * Send a request to the server. Failures throw an LLMRequestError that
+     * explains what went wrong.
+     */
+    private request<T>(
+        endpoint: string,
+        method: HttpRequest['method'],
+        body?: unknown,
+        signal?: AbortSignal
+    ): Promise<T> {
+        return requestJson<T>(this.buildRequest(endpoint, method, body, signal));
+    }
+
+    private buildRequest(
+        endpoint: string,
+        method: HttpRequest['method'],
+        body: unknown,
+        signal: AbortSignal | undefined
+    ): HttpRequest {
+        return { url: this.buildUrl(endpoint), method, headers: this.buildHeaders(), body, signal };
+    }
+}
+
+// One client per server, so each keeps its own tool support cache
+const clients = new Map<string, OpenAICompatibleClient>();
+
+export function getOpenAIClient(serverUrl: string, apiKey?: string): OpenAICompatibleClient {
+    let client = clients.get(serverUrl);
+    if (!client) {
+        client = new OpenAICompatibleClient(serverUrl, apiKey);
+        clients.set(serverUrl, client);
+    } else {
+        client.updateApiKey(apiKey);
+    }
+    return client;
+}
@@ -0,0 +1,256 @@
+/**
+ * Path checks for agent file tools
+ *
+ * Every path a tool receives is resolved here before it is read or written:
+ * it is normalized against the workspace folder, symbolic links are followed
+ * (through the nearest existing parent for paths that don't exist yet), and
+ * the result must lie inside one of the workspace folders and outside the
+ * `rubin.protectedPaths` globs. A rejected path throws a PathAccessError
+ * whose message is sent back to the model as the tool's error.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getConfig } from './config';
+
+// Symbolic links followed before giving up, as the OS does for loops
+const MAX_LINK_HOPS = 40;
+
+export class PathAccessError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PathAccessError';
+    }
+}
+
+/**
+ * `**` matches across directories, `*` and `?` within a name. A glob without
+ * a slash matches the file name in any directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let body = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            const slash = glob[i + 2] === '/';
+            body += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        } else if (char === '*') {
+            body += '[^/]*';
+        } else if (char === '?') {
+            body += '[^/]';
+        } else {
+            body += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(glob.includes('/') ? `^${body}$` : `(?:^|/)${body}$`);
+}
+
+/**
+ * Git pathspecs that leave the protected paths and their contents out of a
+ * git command run in a workspace folder
+ */
+export function getProtectedPathspecs(): string[] {
+    return getConfig().protectedPaths.flatMap(glob => {
+        const anchored = glob.includes('/') ? glob : `**/${glob}`;
+        return [`:(exclude,glob)${anchored}`, `:(exclude,glob)${anchored}/**`];
+    });
+}
+
+/**
+ * Full path for a path from a tool call, relative to `workspaceFolder` or
+ * absolute. Throws a PathAccessError when the agent may not touch it.
+ */
+export function resolveToolPath(filePath: string, workspaceFolder: string): string {
+    return locateToolPath(filePath, workspaceFolder).fullPath;
+}
+
+/**
+ * The workspace-relative forms of a path from a tool call, as written and
+ * with symbolic links followed, for matching against globs. Throws a
+ * PathAccessError when the agent may not touch it.
+ */
+export function getWorkspaceRelativePaths(filePath: string, workspaceFolder: string): string[] {
+    return locateToolPath(filePath, workspaceFolder).relativePaths;
+}
+
+function locateToolPath(filePath: string, workspaceFolder: string): { fullPath: string; relativePaths: string[] } {
+    if (typeof filePath !== 'string') {
+        throw new PathAccessError('A path is required');
+    }
+
+    const fullPath = path.resolve(workspaceFolder, filePath);
+    const roots = getWorkspaceRoots(workspaceFolder);
+    const root = findRoot(fullPath, roots.map(entry => entry.path));
+    if (!root) {
+        throw new PathAccessError(`Path "${filePath}" is outside the workspace`);
+    }
+
+    const realPath = resolveLinks(fullPath, filePath);
+    const realRoot = findRoot(realPath, roots.map(entry => entry.realPath));
+    if (!realRoot) {
+        throw new PathAccessError(`Path "${filePath}" is a link to ${realPath}, outside the workspace`);
+    }
+
+    const relativePaths = [...new Set([toRelative(root, fullPath), toRelative(realRoot, realPath)])];
+    const protectedBy = relativePaths.map(findProtectedGlob).find(glob => glob !== undefined);
+    if (protectedBy) {
+        throw new PathAccessError(`Path "${filePath}" is protected (matches "${protectedBy}" in rubin.protectedPaths)`);
+    }
+    return { fullPath, relativePaths };
+}
+
+/**
+ * Full path for a file or directory the agent wants to delete. On top of the
+ * checks of resolveToolPath, a workspace folder can't be deleted, and neither
+ * can a directory holding a protected path.
+ */
+export function resolveDeletablePath(filePath: string, workspaceFolder: string): string {
+    const { fullPath, relativePaths } = locateToolPath(filePath, workspaceFolder);
+    if (relativePaths.includes('')) {
+        throw new PathAccessError(`Path "${filePath}" is a workspace folder, which can't be deleted`);
+    }
+
+    const found = findProtectedBelow(fullPath, relativePaths, getProtectedGlobs());
+    if (found) {
+        throw new PathAccessError(
+            `Path "${filePath}" contains ${found.relativePath}, which is protected (matches "${found.glob}" in rubin.protectedPaths)`
+        );
+    }
+    return fullPath;
+}
+
+/**
+ * Whether the agent may see a path found by a search
+ */
+export function isAccessibleToAgent(fullPath: string, workspaceFolder: string): boolean {
+    try {
+        resolveToolPath(fullPath, workspaceFolder);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function getWorkspaceRoots(workspaceFolder: string): { path: string; realPath: string }[] {
+    const folders = vscode.workspace.workspaceFolders?.map(folder => folder.uri.fsPath) ?? [];
+    return [...new Set([workspaceFolder, ...folders])].map(folder => {
+        const resolved = path.resolve(folder);
+        let realPath = resolved;
+        try {
+            realPath = fs.realpathSync.native(resolved);
+        } catch {
+            // A folder that is gone can't contain anything real either
+        }
+        return { path: resolved, realPath };
+    });
+}
+
+/**
+ * The root that contains `fullPath`. Compared by path segments, so
+ * `/work/app-secrets` is not inside `/work/app`.
+ */
+function findRoot(fullPath: string, roots: string[]): string | undefined {
+    return roots.find(root => {
+        const relative = path.relative(root, fullPath);
+        return relative === '' || (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative));
+    });
+}
+
+/**
+ * Follow symbolic links in `fullPath`. The part that doesn't exist yet is
+ * kept as it is, after its nearest existing parent is resolved.
+ */
+function resolveLinks(fullPath: string, filePath: string): string {
+    let existing = fullPath;
+    const missing: string[] = [];
+    let hops = 0;
+    for (;;) {
+        try {
+            return path.join(fs.realpathSync.native(existing), ...missing);
+        } catch {
+            // Not there, or a link whose target isn't
+        }
+
+        let target: string | null = null;
+        try {
+            if (fs.lstatSync(existing).isSymbolicLink()) {
+                target = path.resolve(path.dirname(existing), fs.readlinkSync(existing));
+            }
+        } catch {
+            // Doesn't exist at all
+        }
+
+        if (target) {
+            if (++hops > MAX_LINK_HOPS) {
+                throw new PathAccessError(`Path "${filePath}" has too many levels of symbolic links`);
+            }
+            // A write through a dangling link creates its target
+            existing = target;
+        } else {
+            const parent = path.dirname(existing);
+            if (parent === existing) {
+                return path.join(existing, ...missing);
+            }
+            missing.unshift(path.basename(existing));
+            existing = parent;
+        }
+    }
+}
+
+function toRelative(root: string, fullPath: string): string {
+    return path.relative(root, fullPath).split(path.sep).join('/');
+}
+
+function getProtectedGlobs(): { glob: string; regex: RegExp }[] {
+    return getConfig().protectedPaths.map(glob => ({ glob, regex: globToRegExp(glob) }));
+}
+
+/**
+ * The protected glob matching the path or one of its parent directories
+ */
+function findProtectedGlob(relativePath: string): string | undefined {
+    if (!relativePath) {
+        return undefined;
+    }
+    const segments = relativePath.split('/');
+    const prefixes = segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+    return getProtectedGlobs().find(({ regex }) => prefixes.some(prefix => regex.test(prefix)))?.glob;
+}
+
+/**
+ * The first protected path inside a directory, whose own relative paths are
+ * `relativePaths`. Links aren't followed: deleting the directory only removes
+ * them.
+ */
+function findProtectedBelow(
+    fullPath: string,
+    relativePaths: string[],
+    globs: { glob: string; regex: RegExp }[]
+): { relativePath: string; glob: string } | undefined {
+    let entries: fs.Dirent[];
+    try {
+        if (!fs.lstatSync(fullPath).isDirectory()) {
+            return undefined;
+        }
+        entries = fs.readdirSync(fullPath, { withFileTypes: true });
+    } catch {
+        return undefined;
+    }
+
+    for (const entry of entries) {
+        const childPaths = relativePaths.map(relativePath => `${relativePath}/${entry.name}`);
+        const match = globs.find(({ regex }) => childPaths.some(childPath => regex.test(childPath)));
+        if (match) {
+            return { relativePath: childPaths[0], glob: match.glob };
+        }
+        if (entry.isDirectory()) {
+            const found = findProtectedBelow(path.join(fullPath, entry.name), childPaths, globs);
+            if (found) {
+                return found;
+            }
+        }
+    }
+    return undefined;
+}
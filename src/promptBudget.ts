@@ -0,0 +1,179 @@
+/**
+ * Context-window aware prompt budgeting
+ *
+ * Chat and agent prompts are made of sections - system prompt, history,
+ * @mention context, attached files and editor context. Given the model's
+ * context window, the sections are packed by priority: what fits is kept,
+ * large sections that don't fit are cut down where that is allowed, and the
+ * rest is dropped. The window is also passed to Ollama as `num_ctx`, which
+ * otherwise truncates prompts at its own default of 2048 tokens.
+ */
+
+import { LocalCopilotConfig } from './config';
+import { getOllamaClient } from './ollamaClient';
+import { getEndpointMonitor } from './endpoints';
+import { estimateTokens } from './smartContext';
+import { logger } from './logger';
+
+export interface PromptSection {
+    label: string; // Shown in the budget report, e.g. `Attached File: app.ts`
+    content: string;
+    priority: number; // Higher is packed first
+    required?: boolean; // Always kept, even over budget
+    truncatable?: boolean; // May be cut to fit instead of dropped
+    // Sections in the same group are kept contiguous: once one is dropped,
+    // every later (lower-priority) section of the group is dropped too
+    group?: string;
+}
+
+export interface BudgetEntry {
+    label: string;
+    tokens: number;
+    truncated?: boolean;
+}
+
+export interface BudgetReport {
+    contextLength: number;
+    budget: number; // Tokens available to the prompt after reserving the response
+    used: number;
+    included: BudgetEntry[];
+    dropped: BudgetEntry[];
+}
+
+export interface BudgetedPrompt<T extends PromptSection = PromptSection> {
+    sections: T[]; // Kept sections, in their original order
+    numCtx: number;
+    report: BudgetReport;
+}
+
+// Used when neither an override nor the server says how large the window is
+const DEFAULT_CONTEXT_LENGTH = 4096;
+// Truncating to less than this keeps too little to be useful
+const MIN_TRUNCATED_TOKENS = 200;
+
+/**
+ * Context window to use for the config's model: `num_ctx` from the generation
+ * settings or the `rubin.contextLengthOverrides` entry if there is one,
+ * otherwise what Ollama reports, capped at `rubin.maxContextLength`
+ */
+export async function getContextWindow(config: LocalCopilotConfig): Promise<number> {
+    if (config.generationOptions.num_ctx) {
+        return config.generationOptions.num_ctx;
+    }
+
+    const override = config.contextLengthOverrides[config.model];
+    if (override && override > 0) {
+        return override;
+    }
+
+    let reported: number | undefined;
+    if (config.provider === 'ollama') {
+        reported = await getOllamaClient(getEndpointMonitor().selectEndpoint(config).url).getModelContextLength(config.model);
+    }
+
+    return Math.min(reported ?? DEFAULT_CONTEXT_LENGTH, config.maxContextLength);
+}
+
+/**
+ * Fit the sections into the model's context window, leaving `responseTokens`
+ * for the reply, and log what was kept and what was dropped
+ */
+export async function budgetPrompt<T extends PromptSection>(
+    sections: T[],
+    config: LocalCopilotConfig,
+    responseTokens: number
+): Promise<BudgetedPrompt<T>> {
+    const contextLength = await getContextWindow(config);
+    // A reply length set in the generation settings replaces the caller's estimate
+    const configured = config.generationOptions.num_predict ?? 0;
+    const reserved = configured > 0 ? configured : responseTokens;
+    // Never leave the prompt less than half the window, whatever the reply needs
+    const budget = Math.max(contextLength - reserved, Math.floor(contextLength / 2));
+    const packed = packSections(sections, budget);
+
+    const report: BudgetReport = { contextLength, budget, ...packed.report };
+    logger.debug(`Prompt budget for ${config.model}: ${formatBudgetReport(report)}`);
+
+    return { sections: packed.sections, numCtx: contextLength, report };
+}
+
+/**
+ * Pack sections into a token budget, highest priority first. Callers can
+ * carry their own fields on the sections; they are kept on the result.
+ */
+export function packSections<T extends PromptSection>(
+    sections: T[],
+    budget: number
+): { sections: T[]; report: Omit<BudgetReport, 'contextLength' | 'budget'> } {
+    const order = sections
+        .map((section, index) => ({ section, index }))
+        .sort((a, b) => Number(!!b.section.required) - Number(!!a.section.required) ||
+            b.section.priority - a.section.priority ||
+            a.index - b.index);
+
+    const kept = new Map<number, T>();
+    const closedGroups = new Set<string>();
+    const included: BudgetEntry[] = [];
+    const dropped: BudgetEntry[] = [];
+    let used = 0;
+
+    for (const { section, index } of order) {
+        const tokens = estimateTokens(section.content);
+        const remaining = budget - used;
+
+        if (section.required || (tokens <= remaining && !closedGroups.has(section.group ?? ''))) {
+            kept.set(index, section);
+            included.push({ label: section.label, tokens });
+            used += tokens;
+            continue;
+        }
+
+        if (section.truncatable && remaining >= MIN_TRUNCATED_TOKENS && !closedGroups.has(section.group ?? '')) {
+            const truncated = truncateToTokens(section.content, remaining);
+            const truncatedTokens = estimateTokens(truncated);
+            kept.set(index, { ...section, content: truncated });
+            included.push({ label: section.label, tokens: truncatedTokens, truncated: true });
+            used += truncatedTokens;
+            continue;
+        }
+
+        dropped.push({ label: section.label, tokens });
+        if (section.group) {
+            closedGroups.add(section.group);
+        }
+    }
+
+    return {
+        sections: [...kept.entries()].sort((a, b) => a[0] - b[0]).map(([, section]) => section),
+        report: { used, included, dropped },
+    };
+}
+
+/**
+ * One-line summary of a budget report, e.g. for the log or the chat panel
+ */
+export function formatBudgetReport(report: BudgetReport): string {
+    const truncated = report.included.filter(entry => entry.truncated).map(entry => entry.label);
+    const parts = [
+        `${report.used.toLocaleString()} of ${report.budget.toLocaleString()} tokens ` +
+            `(context ${report.contextLength.toLocaleString()}), ` +
+            `${report.included.length} of ${report.included.length + report.dropped.length} sections`,
+    ];
+    if (truncated.length > 0) {
+        parts.push(`truncated: ${truncated.join(', ')}`);
+    }
+    if (report.dropped.length > 0) {
+        parts.push(`dropped: ${report.dropped.map(entry => entry.label).join(', ')}`);
+    }
+    return parts.join('; ');
+}
+
+/**
+ * Keep whole lines from the start of the text up to the token limit
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+    const marker = '\n... (truncated to fit the context window)';
+    const maxChars = Math.max(0, (maxTokens - estimateTokens(marker)) * 4);
+    const cut = text.lastIndexOf('\n', maxChars);
+    return text.substring(0, cut > 0 ? cut : maxChars) + marker;
+}
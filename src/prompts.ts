@@ -5,6 +5,9 @@
  * GitHub Copilot's behavior and response quality.
  */
 
+import { ChatMessage } from './ollamaClient';
+import { JsonSchema } from './structuredOutput';
+
 // Core identity and behavior
 export const RUBIN_IDENTITY = `You are Rubin, an expert AI programming assistant powered by local LLMs via Ollama. You are integrated into VS Code and help developers write, understand, and debug code.`;
 
@@ -225,7 +228,33 @@ Examples of good follow-ups:
 - "Explain the edge cases"
 - "Optimize for performance"
 
-Keep suggestions specific to the current context and concise (under 6 words each).`;
+Keep suggestions specific to the current context and concise (under 6 words each).
+
+Reply with a JSON object whose "suggestions" field lists them.`;
+
+export const FOLLOWUP_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        suggestions: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, maxItems: 3 },
+    },
+    required: ['suggestions'],
+};
+
+// Only the start of a long answer is needed to suggest follow-ups
+const FOLLOWUP_ANSWER_CHARS = 4000;
+
+/**
+ * Messages asking the chat model for follow-ups to its last answer
+ */
+export function buildFollowUpMessages(userMessage: string, response: string): ChatMessage[] {
+    const answer = response.length > FOLLOWUP_ANSWER_CHARS
+        ? response.substring(0, FOLLOWUP_ANSWER_CHARS) + '\n... (truncated)'
+        : response;
+    return [
+        { role: 'system', content: FOLLOWUP_PROMPT },
+        { role: 'user', content: `User: ${userMessage}\n\nAssistant: ${answer}` },
+    ];
+}
 
 /**
  * Build a complete prompt with context
@@ -258,7 +287,8 @@ export function buildPrompt(
 }
 
 /**
- * Generate follow-up suggestions based on response
+ * Canned follow-up suggestions based on the response, for when the model
+ * can't suggest its own
  */
 export function generateFollowUpSuggestions(
     userMessage: string,
@@ -30,7 +30,7 @@ export interface SmartContext {
 }
 
 // Token estimation (rough approximation: 4 chars = 1 token)
-function estimateTokens(text: string): number {
+export function estimateTokens(text: string): number {
     return Math.ceil(text.length / 4);
 }
 
@@ -191,7 +191,7 @@ export function formatSmartContext(context: SmartContext): string {
 /**
  * Find import statements in a document
  */
-async function findImports(document: vscode.TextDocument): Promise<string[]> {
+export async function findImports(document: vscode.TextDocument): Promise<string[]> {
     const text = document.getText();
     const imports: string[] = [];
     
@@ -221,7 +221,7 @@ async function findImports(document: vscode.TextDocument): Promise<string[]> {
 /**
  * Get content of an imported file
  */
-async function getImportedFileContent(
+export async function getImportedFileContent(
     importPath: string,
     workspaceFolder: string,
     currentFile: string
@@ -0,0 +1,165 @@
+/**
+ * Structured JSON replies for internal prompts
+ *
+ * Features that need a machine-readable answer send a JSON schema as the
+ * response format - Ollama constrains generation to it, OpenAI-compatible
+ * servers receive it as `response_format` - and the reply is validated
+ * against the same schema. A reply that doesn't match is sent back once with
+ * the problem so the model can correct it.
+ */
+
+import { LocalCopilotConfig } from './config';
+import { LLMRequestError } from './httpTransport';
+import { LLMProvider } from './llmProvider';
+import { ChatMessage, GenerateOptions } from './ollamaClient';
+import { logger } from './logger';
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * The subset of JSON Schema that replies are validated against
+ */
+export interface JsonSchema {
+    type?: JsonType | JsonType[];
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    enum?: unknown[];
+    minLength?: number;
+    minItems?: number;
+    maxItems?: number;
+}
+
+/**
+ * Ask for a reply matching `schema` and return it parsed. Resolves to null
+ * when cancelled; throws an LLMRequestError when the server fails or the
+ * model still doesn't match the schema after being corrected once.
+ */
+export async function chatStructured<T>(
+    client: Pick<LLMProvider, 'chat'>,
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    config: LocalCopilotConfig,
+    options: GenerateOptions = {},
+    signal?: AbortSignal
+): Promise<T | null> {
+    const schemaConfig: LocalCopilotConfig = {
+        ...config,
+        generationOptions: { ...config.generationOptions, format: schema as Record<string, unknown> },
+    };
+
+    let conversation = messages;
+    let problem = '';
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const reply = await client.chat(conversation, schemaConfig, options, signal);
+        if (reply === null) {
+            return null;
+        }
+
+        const parsed = parseReply(reply);
+        problem = parsed.problem ?? validateJson(parsed.value, schema) ?? '';
+        if (!problem) {
+            return parsed.value as T;
+        }
+
+        logger.debug(`Structured reply from ${config.model} rejected: ${problem}`);
+        conversation = [
+            ...messages,
+            { role: 'assistant', content: reply },
+            {
+                role: 'user',
+                content: `That reply is not valid: ${problem}. Reply again with only JSON matching this schema:\n${JSON.stringify(schema)}`,
+            },
+        ];
+    }
+
+    throw new LLMRequestError('invalidOutput', `${config.model} did not reply in the expected format (${problem}).`);
+}
+
+/**
+ * First way `value` breaks `schema`, or undefined when it matches
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path: string = 'reply'): string | undefined {
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            return `${path} must be ${types.join(' or ')}`;
+        }
+    }
+    if (schema.enum && !schema.enum.some(option => option === value)) {
+        return `${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`;
+    }
+
+    if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+        return schema.minLength === 1 ? `${path} must not be empty` : `${path} is shorter than ${schema.minLength} characters`;
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            return `${path} needs at least ${schema.minItems} items`;
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            return `${path} has more than ${schema.maxItems} items`;
+        }
+        if (schema.items) {
+            for (let index = 0; index < value.length; index++) {
+                const problem = validateJson(value[index], schema.items, `${path}[${index}]`);
+                if (problem) {
+                    return problem;
+                }
+            }
+        }
+    }
+
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        const object = value as Record<string, unknown>;
+        for (const key of schema.required ?? []) {
+            if (!(key in object)) {
+                return `${path} is missing "${key}"`;
+            }
+        }
+        for (const [key, entry] of Object.entries(object)) {
+            const property = schema.properties?.[key];
+            if (property) {
+                const problem = validateJson(entry, property, `${path}.${key}`);
+                if (problem) {
+                    return problem;
+                }
+            } else if (schema.additionalProperties === false) {
+                return `${path} has unexpected property "${key}"`;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+    switch (type) {
+        case 'object':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'null':
+            return value === null;
+        default:
+            return typeof value === type;
+    }
+}
+
+/**
+ * Parse a reply as JSON. Servers that ignore the response format may still
+ * wrap it in a code fence.
+ */
+function parseReply(reply: string): { value?: unknown; problem?: string } {
+    const text = reply.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/, '$1');
+    try {
+        return { value: JSON.parse(text) };
+    } catch (error) {
+        return { problem: `it is not JSON (${error instanceof Error ? error.message : 'parse error'})` };
+    }
+}
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentTerminal } from '../agentTerminal';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('agentTerminal', function () {
+    this.timeout(10000);
+
+    let cwd: string;
+    let terminal: AgentTerminal;
+
+    beforeEach(() => {
+        cwd = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'rubin-terminal-')));
+        terminal = new AgentTerminal();
+    });
+
+    afterEach(() => {
+        terminal.dispose();
+        fs.rmSync(cwd, { recursive: true, force: true });
+    });
+
+    it('captures output and the exit code', async () => {
+        const result = await terminal.run('echo out; echo err >&2; exit 3', cwd, { timeoutMs: 0, maxOutputChars: 1000 });
+        assert.strictEqual(result.exitCode, 3);
+        assert.strictEqual(result.stdout, 'out\n');
+        assert.strictEqual(result.stderr, 'err\n');
+    });
+
+    it('finishes when the shell exits while a background process runs', async () => {
+        const startedAt = Date.now();
+        const result = await terminal.run('sleep 8 & echo started', cwd, { timeoutMs: 0, maxOutputChars: 1000 });
+        assert.ok(Date.now() - startedAt < 4000);
+        assert.strictEqual(result.exitCode, 0);
+        assert.strictEqual(result.stdout, 'started\n');
+    });
+
+    it('stops background processes on timeout', async () => {
+        const result = await terminal.run('(sleep 1 && touch marker) & sleep 8', cwd, { timeoutMs: 200, maxOutputChars: 1000 });
+        assert.ok(result.timedOut);
+        assert.strictEqual(result.exitCode, null);
+        await sleep(1500);
+        assert.ok(!fs.existsSync(path.join(cwd, 'marker')));
+    });
+});
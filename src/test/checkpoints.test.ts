@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TaskCheckpoint } from '../checkpoints';
+import { resetStub } from './vscodeStub';
+
+describe('checkpoints', () => {
+    let workspaceFolder: string;
+    let task: TaskCheckpoint;
+
+    const file = (relativePath: string) => path.join(workspaceFolder, relativePath);
+    const read = (relativePath: string) => fs.readFileSync(file(relativePath), 'utf-8');
+
+    beforeEach(() => {
+        resetStub();
+        workspaceFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'rubin-checkpoints-')));
+        fs.mkdirSync(file('src'));
+        fs.writeFileSync(file('src/a.ts'), 'original');
+        task = new TaskCheckpoint('1', 'task', workspaceFolder, () => undefined);
+    });
+
+    afterEach(() => {
+        fs.rmSync(workspaceFolder, { recursive: true, force: true });
+    });
+
+    it('restores modified, created and deleted files', () => {
+        task.capture(file('src/a.ts'));
+        fs.writeFileSync(file('src/a.ts'), 'changed');
+        task.capture(file('src/new.ts'));
+        fs.writeFileSync(file('src/new.ts'), 'new');
+
+        assert.deepStrictEqual(task.revertAll(), { failed: [], tooLarge: [] });
+        assert.strictEqual(read('src/a.ts'), 'original');
+        assert.ok(!fs.existsSync(file('src/new.ts')));
+
+        task.capture(file('src'));
+        fs.rmSync(file('src'), { recursive: true });
+        task.revertAll();
+        assert.strictEqual(read('src/a.ts'), 'original');
+    });
+
+    it('reverts a write through a link in the target and keeps the link', () => {
+        fs.symlinkSync('src/a.ts', file('link.ts'));
+        task.capture(file('link.ts'));
+        fs.writeFileSync(file('link.ts'), 'changed');
+
+        task.revertAll();
+        assert.ok(fs.lstatSync(file('link.ts')).isSymbolicLink());
+        assert.strictEqual(fs.readlinkSync(file('link.ts')), 'src/a.ts');
+        assert.strictEqual(read('src/a.ts'), 'original');
+    });
+
+    it('recreates a deleted link', () => {
+        fs.symlinkSync('src/a.ts', file('link.ts'));
+        task.capture(file('link.ts'));
+        fs.rmSync(file('link.ts'));
+
+        task.revertFile('link.ts');
+        assert.strictEqual(fs.readlinkSync(file('link.ts')), 'src/a.ts');
+        assert.strictEqual(read('link.ts'), 'original');
+    });
+
+    it('recreates links inside a deleted directory', () => {
+        fs.mkdirSync(file('src/nested'));
+        fs.symlinkSync('../a.ts', file('src/nested/link.ts'));
+        task.capture(file('src'));
+        fs.rmSync(file('src'), { recursive: true });
+
+        task.revertAll();
+        assert.strictEqual(fs.readlinkSync(file('src/nested/link.ts')), '../a.ts');
+        assert.strictEqual(read('src/nested/link.ts'), 'original');
+    });
+});
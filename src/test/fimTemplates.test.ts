@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { renderFimPrompt, resolveFimTemplate } from '../fimTemplates';
+import { resetStub } from './vscodeStub';
+
+describe('fimTemplates', () => {
+    beforeEach(() => resetStub());
+
+    const templateFor = (model: string) => {
+        const template = resolveFimTemplate(model);
+        assert.ok(template, `no template for ${model}`);
+        return template;
+    };
+
+    it('resolves built-in templates by model name', () => {
+        assert.strictEqual(templateFor('qwen2.5-coder:7b').name, 'qwen2.5-coder');
+        assert.strictEqual(templateFor('codestral:22b').name, 'codestral');
+        assert.strictEqual(resolveFimTemplate('llama3.1:8b'), null);
+    });
+
+    it('fills the prefix and suffix', () => {
+        assert.strictEqual(
+            renderFimPrompt(templateFor('starcoder2'), 'const a = ', ';'),
+            '<fim_prefix>const a = <fim_suffix>;<fim_middle>'
+        );
+    });
+
+    it('leaves placeholder text inside the code alone', () => {
+        assert.strictEqual(
+            renderFimPrompt(templateFor('starcoder2'), 'f"{suffix}', '{prefix}"'),
+            '<fim_prefix>f"{suffix}<fim_suffix>{prefix}"<fim_middle>'
+        );
+        assert.strictEqual(
+            renderFimPrompt(templateFor('codestral'), '`${prefix}', '{suffix}`'),
+            '[SUFFIX]{suffix}`[PREFIX]`${prefix}'
+        );
+    });
+
+    it('keeps $ sequences in the code', () => {
+        assert.strictEqual(renderFimPrompt(templateFor('starcoder2'), "s.replace(/x/, '$&')", '$1'),
+            "<fim_prefix>s.replace(/x/, '$&')<fim_suffix>$1<fim_middle>");
+    });
+});
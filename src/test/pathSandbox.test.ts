@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getProtectedPathspecs, globToRegExp, PathAccessError, resolveDeletablePath, resolveToolPath } from '../pathSandbox';
+import { resetStub, setSetting, setWorkspace } from './vscodeStub';
+
+describe('pathSandbox', () => {
+    describe('globToRegExp', () => {
+        it('matches a glob without a slash in any directory', () => {
+            const regex = globToRegExp('*.pem');
+            assert.ok(regex.test('server.pem'));
+            assert.ok(regex.test('certs/server.pem'));
+            assert.ok(!regex.test('server.pem.txt'));
+        });
+
+        it('anchors a glob with a slash at the workspace folder', () => {
+            const regex = globToRegExp('.vscode/settings.json');
+            assert.ok(regex.test('.vscode/settings.json'));
+            assert.ok(!regex.test('app/.vscode/settings.json'));
+        });
+
+        it('matches ** across directories and * within a name', () => {
+            assert.ok(globToRegExp('docs/**').test('docs/a/b.md'));
+            assert.ok(globToRegExp('src/**/*.ts').test('src/a.ts'));
+            assert.ok(globToRegExp('src/**/*.ts').test('src/a/b/c.ts'));
+            assert.ok(!globToRegExp('src/*.ts').test('src/a/b.ts'));
+        });
+    });
+
+    describe('resolving tool paths', () => {
+        let base: string;
+        let workspaceFolder: string;
+
+        beforeEach(() => {
+            base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'rubin-sandbox-')));
+            workspaceFolder = path.join(base, 'app');
+            fs.mkdirSync(path.join(workspaceFolder, 'src'), { recursive: true });
+            fs.writeFileSync(path.join(workspaceFolder, 'src', 'a.ts'), '');
+            fs.writeFileSync(path.join(workspaceFolder, '.env'), '');
+            resetStub();
+            setWorkspace([workspaceFolder]);
+            setSetting('rubin.protectedPaths', ['.env*', '*.pem', 'secrets']);
+        });
+
+        afterEach(() => {
+            fs.rmSync(base, { recursive: true, force: true });
+        });
+
+        const assertRejected = (resolve: () => string) => assert.throws(resolve, PathAccessError);
+
+        it('resolves relative and absolute paths inside the workspace', () => {
+            const expected = path.join(workspaceFolder, 'src', 'a.ts');
+            assert.strictEqual(resolveToolPath('src/a.ts', workspaceFolder), expected);
+            assert.strictEqual(resolveToolPath(expected, workspaceFolder), expected);
+            assert.strictEqual(resolveToolPath('src/new/b.ts', workspaceFolder), path.join(workspaceFolder, 'src', 'new', 'b.ts'));
+        });
+
+        it('rejects paths outside the workspace', () => {
+            fs.mkdirSync(path.join(base, 'app-secrets'));
+            assertRejected(() => resolveToolPath('../app-secrets/x', workspaceFolder));
+            assertRejected(() => resolveToolPath(path.join(base, 'app-secrets', 'x'), workspaceFolder));
+            assertRejected(() => resolveToolPath('/etc/passwd', workspaceFolder));
+        });
+
+        it('rejects links that lead outside the workspace', () => {
+            fs.symlinkSync(base, path.join(workspaceFolder, 'up'));
+            fs.symlinkSync(path.join(base, 'missing'), path.join(workspaceFolder, 'dangling'));
+            assertRejected(() => resolveToolPath('up/x', workspaceFolder));
+            assertRejected(() => resolveToolPath('dangling', workspaceFolder));
+        });
+
+        it('rejects link loops', () => {
+            fs.symlinkSync(path.join(workspaceFolder, 'b'), path.join(workspaceFolder, 'a'));
+            fs.symlinkSync(path.join(workspaceFolder, 'a'), path.join(workspaceFolder, 'b'));
+            assertRejected(() => resolveToolPath('a', workspaceFolder));
+        });
+
+        it('rejects protected paths, their contents and links to them', () => {
+            assertRejected(() => resolveToolPath('.env', workspaceFolder));
+            assertRejected(() => resolveToolPath('config/.env.local', workspaceFolder));
+            assertRejected(() => resolveToolPath('secrets/token', workspaceFolder));
+            fs.symlinkSync(path.join(workspaceFolder, '.env'), path.join(workspaceFolder, 'env-link'));
+            assertRejected(() => resolveToolPath('env-link', workspaceFolder));
+        });
+
+        it('does not delete a workspace folder', () => {
+            fs.rmSync(path.join(workspaceFolder, '.env'));
+            assertRejected(() => resolveDeletablePath('.', workspaceFolder));
+            assertRejected(() => resolveDeletablePath('', workspaceFolder));
+            assertRejected(() => resolveDeletablePath(workspaceFolder, workspaceFolder));
+            assertRejected(() => resolveDeletablePath('src/..', workspaceFolder));
+        });
+
+        it('does not delete a directory holding a protected path', () => {
+            fs.mkdirSync(path.join(workspaceFolder, 'config', 'deep'), { recursive: true });
+            fs.writeFileSync(path.join(workspaceFolder, 'config', 'deep', 'server.pem'), '');
+            assertRejected(() => resolveDeletablePath('config', workspaceFolder));
+            assertRejected(() => resolveDeletablePath('config/deep', workspaceFolder));
+            assert.strictEqual(resolveDeletablePath('src', workspaceFolder), path.join(workspaceFolder, 'src'));
+            assert.strictEqual(resolveDeletablePath('src/a.ts', workspaceFolder), path.join(workspaceFolder, 'src', 'a.ts'));
+        });
+
+        it('deletes a link to a directory holding a protected path', () => {
+            fs.mkdirSync(path.join(workspaceFolder, 'config'));
+            fs.writeFileSync(path.join(workspaceFolder, 'config', 'server.pem'), '');
+            fs.symlinkSync(path.join(workspaceFolder, 'config'), path.join(workspaceFolder, 'config-link'));
+            assert.strictEqual(resolveDeletablePath('config-link', workspaceFolder), path.join(workspaceFolder, 'config-link'));
+        });
+
+        it('leaves protected paths out of git commands', () => {
+            const git = (...args: string[]) => cp.execFileSync('git', args, { cwd: workspaceFolder, encoding: 'utf-8' });
+            fs.mkdirSync(path.join(workspaceFolder, 'config', 'secrets'), { recursive: true });
+            fs.writeFileSync(path.join(workspaceFolder, 'config', 'secrets', 'token'), '');
+            fs.writeFileSync(path.join(workspaceFolder, 'config', 'server.pem'), '');
+            git('init', '-q');
+            git('add', '-A');
+            git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'initial');
+            for (const file of ['src/a.ts', '.env', 'config/secrets/token', 'config/server.pem']) {
+                fs.writeFileSync(path.join(workspaceFolder, file), 'changed');
+            }
+
+            assert.strictEqual(git('diff', '--name-only', '--', '.', ...getProtectedPathspecs()), 'src/a.ts\n');
+            assert.strictEqual(git('diff', '--name-only', '--', 'config', ...getProtectedPathspecs()), '');
+        });
+    });
+});
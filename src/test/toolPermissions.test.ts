@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { commandPatternToRegExp, splitCommand, ToolPermissions } from '../toolPermissions';
+import { resetStub, setSetting, setWorkspace } from './vscodeStub';
+
+describe('toolPermissions', () => {
+    describe('splitCommand', () => {
+        it('splits every kind of chaining', () => {
+            assert.deepStrictEqual(
+                splitCommand('npm test && a || b; c | d & e\nf'),
+                ['npm test', 'a', 'b', 'c', 'd', 'e', 'f']
+            );
+        });
+
+        it('drops empty segments', () => {
+            assert.deepStrictEqual(splitCommand('npm test &; '), ['npm test']);
+        });
+    });
+
+    describe('commandPatternToRegExp', () => {
+        it('matches the start of a command up to a word boundary', () => {
+            const regex = commandPatternToRegExp('npm test');
+            assert.ok(regex.test('npm test'));
+            assert.ok(regex.test('npm test -- --grep x'));
+            assert.ok(!regex.test('npm tests'));
+            assert.ok(!regex.test('sudo npm test'));
+        });
+
+        it('treats * as a wildcard and other characters literally', () => {
+            assert.ok(commandPatternToRegExp('git log *').test('git log --oneline'));
+            assert.ok(!commandPatternToRegExp('a.b').test('axb'));
+        });
+    });
+
+    describe('decide', () => {
+        let workspaceFolder: string;
+        let permissions: ToolPermissions;
+
+        beforeEach(() => {
+            workspaceFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'rubin-permissions-')));
+            resetStub();
+            setWorkspace([workspaceFolder]);
+            setSetting('rubin.protectedPaths', []);
+            permissions = new ToolPermissions();
+        });
+
+        afterEach(() => {
+            fs.rmSync(workspaceFolder, { recursive: true, force: true });
+        });
+
+        const decideCommand = (command: string) =>
+            permissions.decide('runCommand', { command }, workspaceFolder, true).mode;
+
+        it('allows only commands the rules cover', () => {
+            setSetting('rubin.toolPermissions', { commands: [{ pattern: 'npm test', mode: 'allow' }] });
+            assert.strictEqual(decideCommand('npm test'), 'allow');
+            assert.strictEqual(decideCommand('npm test && npm test'), 'allow');
+            assert.strictEqual(decideCommand('npm test && rm -rf build'), 'ask');
+            assert.strictEqual(decideCommand('npm test & rm -rf ~'), 'ask');
+            assert.strictEqual(decideCommand('npm test | sh'), 'ask');
+        });
+
+        it('asks for redirections and command substitutions', () => {
+            setSetting('rubin.toolPermissions', { commands: [{ pattern: 'npm test', mode: 'allow' }] });
+            assert.strictEqual(decideCommand('npm test > ~/.bashrc'), 'ask');
+            assert.strictEqual(decideCommand('npm test 2>&1'), 'ask');
+            assert.strictEqual(decideCommand('npm test < input'), 'ask');
+            assert.strictEqual(decideCommand('npm test $(rm -rf ~)'), 'ask');
+            assert.strictEqual(decideCommand('npm test `rm -rf ~`'), 'ask');
+        });
+
+        it('lets the strictest segment win', () => {
+            setSetting('rubin.toolPermissions', {
+                commands: [{ pattern: 'npm test', mode: 'allow' }, { pattern: 'git push', mode: 'deny' }],
+            });
+            assert.strictEqual(decideCommand('npm test; git push --force'), 'deny');
+            assert.strictEqual(decideCommand('npm test > log; git push'), 'deny');
+        });
+
+        it('matches path rules against absolute paths', () => {
+            setSetting('rubin.toolPermissions', { paths: [{ glob: 'secrets/**', mode: 'deny' }] });
+            const decideRead = (filePath: string) =>
+                permissions.decide('readFile', { filePath }, workspaceFolder, true).mode;
+            assert.strictEqual(decideRead('secrets/a'), 'deny');
+            assert.strictEqual(decideRead(path.join(workspaceFolder, 'secrets', 'a')), 'deny');
+            assert.strictEqual(decideRead('src/../secrets/a'), 'deny');
+            assert.strictEqual(decideRead('src/a'), 'allow');
+        });
+
+        it('matches path rules through symbolic links', () => {
+            setSetting('rubin.toolPermissions', { paths: [{ glob: 'secrets/**', mode: 'deny' }] });
+            fs.mkdirSync(path.join(workspaceFolder, 'secrets'));
+            fs.symlinkSync(path.join(workspaceFolder, 'secrets'), path.join(workspaceFolder, 'link'));
+            const decision = permissions.decide('readFile', { filePath: 'link/a' }, workspaceFolder, true);
+            assert.strictEqual(decision.mode, 'deny');
+        });
+
+        it('applies workspace allows once the workspace is trusted', () => {
+            fs.mkdirSync(path.join(workspaceFolder, '.rubin'));
+            fs.writeFileSync(path.join(workspaceFolder, '.rubin', 'permissions.json'), JSON.stringify({ tools: { deleteFile: 'allow' } }));
+            const decideDelete = () => permissions.decide('deleteFile', { filePath: 'a' }, workspaceFolder, true).mode;
+
+            setWorkspace([workspaceFolder], false);
+            assert.strictEqual(decideDelete(), 'ask');
+            setWorkspace([workspaceFolder], true);
+            assert.strictEqual(decideDelete(), 'allow');
+        });
+
+        it('remembers commands allowed for the session', () => {
+            const decision = permissions.decide('runCommand', { command: 'make' }, workspaceFolder, true);
+            assert.strictEqual(decision.mode, 'ask');
+            permissions.allowForSession(decision.sessionKey ?? '');
+            assert.strictEqual(decideCommand('make'), 'allow');
+            assert.strictEqual(decideCommand('make install'), 'ask');
+        });
+    });
+});
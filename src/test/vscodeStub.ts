@@ -0,0 +1,65 @@
+/**
+ * A stand-in for the `vscode` module, so unit tests run in plain Node
+ *
+ * Loaded with mocha's `--require` before any test. It covers the parts of
+ * the API the tested modules touch at runtime; tests set settings and the
+ * workspace state through the helpers below.
+ */
+
+import Module = require('module');
+
+const settings = new Map<string, unknown>();
+
+class EventEmitter<T> {
+    private listeners: ((value: T) => void)[] = [];
+
+    readonly event = (listener: (value: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => { this.listeners = this.listeners.filter(entry => entry !== listener); } };
+    };
+
+    fire(value: T): void {
+        this.listeners.forEach(listener => listener(value));
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+const workspace = {
+    workspaceFolders: undefined as { uri: { fsPath: string } }[] | undefined,
+    isTrusted: true,
+    getConfiguration: (section?: string) => ({
+        get: <T>(key: string, defaultValue?: T): T | undefined => {
+            const fullKey = section ? `${section}.${key}` : key;
+            return settings.has(fullKey) ? settings.get(fullKey) as T : defaultValue;
+        },
+    }),
+};
+
+const window = {
+    createTerminal: () => ({ show: () => undefined, dispose: () => undefined }),
+};
+
+const vscodeStub = { workspace, window, EventEmitter };
+
+/** Set a setting by its full name, e.g. `rubin.protectedPaths` */
+export function setSetting(key: string, value: unknown): void {
+    settings.set(key, value);
+}
+
+export function setWorkspace(folders: string[], isTrusted = true): void {
+    workspace.workspaceFolders = folders.map(fsPath => ({ uri: { fsPath } }));
+    workspace.isTrusted = isTrusted;
+}
+
+export function resetStub(): void {
+    settings.clear();
+    workspace.workspaceFolders = undefined;
+    workspace.isTrusted = true;
+}
+
+const loader = Module as unknown as Record<string, (request: string, ...rest: unknown[]) => unknown>;
+const load = loader._load;
+loader._load = (request: string, ...rest: unknown[]) => (request === 'vscode' ? vscodeStub : load(request, ...rest));
@@ -0,0 +1,415 @@
+/**
+ * Permission policy for agent tools
+ *
+ * Every tool call is allowed, sent to the user for approval, or denied. The
+ * policy comes from `rubin.toolPermissions` and the workspace's
+ * `.rubin/permissions.json`, which share one shape:
+ *
+ *     {
+ *         "tools": { "readFile": "allow", "deleteFile": "deny" },
+ *         "commands": [{ "pattern": "npm test", "mode": "allow" }, { "pattern": "git push", "mode": "deny" }],
+ *         "paths": [{ "glob": ".env*", "mode": "deny" }, { "glob": "docs/**", "tools": ["writeFile"], "mode": "allow" }],
+ *         "mcpServers": { "github": "ask" }
+ *     }
+ *
+ * Matching command or path rules are more specific than the tool's mode and
+ * replace it. Wherever several entries apply, the strictest wins. Allow
+ * entries in the workspace file only count in a trusted workspace.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { logger } from './logger';
+import { getWorkspaceRelativePaths, globToRegExp } from './pathSandbox';
+
+export type PermissionMode = 'allow' | 'ask' | 'deny';
+
+export interface PermissionDecision {
+    mode: PermissionMode;
+    reason: string; // The rule or default that decided, for the approval card and logs
+    sessionKey?: string; // What "allow for this session" covers, when the mode is 'ask'
+    sessionLabel?: string;
+}
+
+interface ModeEntry {
+    mode: PermissionMode;
+    source: string;
+}
+
+interface CommandRule extends ModeEntry {
+    pattern: string;
+    regex: RegExp;
+}
+
+interface PathRule extends ModeEntry {
+    glob: string;
+    tools: string[]; // Empty for every tool with a path
+    regex: RegExp;
+}
+
+interface ToolPolicy {
+    tools: Map<string, ModeEntry[]>;
+    commands: CommandRule[];
+    paths: PathRule[];
+    mcpServers: Map<string, ModeEntry[]>;
+}
+
+const SETTING = 'rubin.toolPermissions';
+const WORKSPACE_FILE = path.join('.rubin', 'permissions.json');
+const MODES: PermissionMode[] = ['allow', 'ask', 'deny'];
+// Tools that ask unless the policy says otherwise
+const SENSITIVE_TOOLS = ['runCommand', 'writeFile', 'editFile', 'insertCode', 'deleteFile'];
+// Sensitive tools whose changes go to the staging area instead of the disk
+const STAGED_TOOLS = ['writeFile', 'editFile', 'insertCode'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Policies are read on every tool call, so each problem is only logged once
+const reportedProblems = new Set<string>();
+
+function strictestEntry<T extends { mode: PermissionMode }>(entries: T[]): T {
+    return entries.reduce((result, entry) => (MODES.indexOf(entry.mode) > MODES.indexOf(result.mode) ? entry : result));
+}
+
+/**
+ * A command pattern matches the start of a command, up to a word boundary;
+ * `*` matches anything
+ */
+export function commandPatternToRegExp(pattern: string): RegExp {
+    const body = pattern.trim().split(/\s+/)
+        .map(word => word.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*'))
+        .join('\\s+');
+    return new RegExp(`^${body}(\\s.*)?$`, 's');
+}
+
+/**
+ * Separate the commands chained in a shell line, so allowing `npm test`
+ * doesn't allow `npm test && rm -rf build` or `npm test & rm -rf build`
+ */
+export function splitCommand(command: string): string[] {
+    return command.split(/&&|\|\||[;|&\r\n]/).map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Why a command rule can't vouch for a command: what a substituted command
+ * runs can't be matched against the rules, and a redirection can overwrite
+ * any file
+ */
+function findUncheckedSyntax(command: string): string | undefined {
+    if (/\$\(|`/.test(command)) {
+        return 'the command contains a command substitution';
+    }
+    if (/[<>]/.test(command)) {
+        return 'the command contains a redirection';
+    }
+    return undefined;
+}
+
+export class ToolPermissions {
+    private sessionAllowed = new Set<string>();
+    private workspacePolicy: { file: string; mtimeMs: number; isTrusted: boolean; policy: ToolPolicy } | null = null;
+
+    /**
+     * Decide a tool call. `stagesEdits` is set when file edits are staged for
+     * review, which makes asking before them unnecessary by default.
+     */
+    decide(
+        toolName: string,
+        params: Record<string, string>,
+        workspaceFolder: string,
+        stagesEdits: boolean
+    ): PermissionDecision {
+        const policy = this.getPolicy(workspaceFolder);
+        let decision = this.decideTool(policy, toolName, stagesEdits);
+
+        const filePath = params.filePath ?? params.dirPath;
+        if (toolName === 'runCommand' && typeof params.command === 'string') {
+            decision = this.decideCommand(policy, params.command, decision);
+        } else if (typeof filePath === 'string' && filePath) {
+            decision = this.decidePath(policy, toolName, filePath, workspaceFolder, decision);
+        }
+
+        if (decision.mode !== 'ask') {
+            return decision;
+        }
+        const isCommand = toolName === 'runCommand';
+        const sessionKey = isCommand ? `runCommand:${String(params.command ?? '').trim()}` : toolName;
+        if (this.sessionAllowed.has(sessionKey)) {
+            return { mode: 'allow', reason: 'allowed for this session' };
+        }
+        return { ...decision, sessionKey, sessionLabel: isCommand ? 'this command' : `every ${toolName} call` };
+    }
+
+    allowForSession(sessionKey: string): void {
+        this.sessionAllowed.add(sessionKey);
+        logger.info(`Allowed ${sessionKey} for this session`);
+    }
+
+    resetSession(): number {
+        const count = this.sessionAllowed.size;
+        this.sessionAllowed.clear();
+        return count;
+    }
+
+    private decideTool(policy: ToolPolicy, toolName: string, stagesEdits: boolean): PermissionDecision {
+        const configured = policy.tools.get(toolName);
+        if (configured) {
+            const entry = strictestEntry(configured);
+            return { mode: entry.mode, reason: `${toolName} is set to "${entry.mode}" in ${entry.source}` };
+        }
+
+        if (toolName.startsWith('mcp_')) {
+            // Same naming as executeMCPTool: mcp_serverName_toolName
+            const server = toolName.split('_')[1];
+            const serverModes = policy.mcpServers.get(server);
+            if (serverModes) {
+                const entry = strictestEntry(serverModes);
+                return { mode: entry.mode, reason: `MCP server ${server} is set to "${entry.mode}" in ${entry.source}` };
+            }
+            return { mode: 'ask', reason: 'MCP tools ask by default' };
+        }
+
+        if (stagesEdits && STAGED_TOOLS.includes(toolName)) {
+            return { mode: 'allow', reason: 'edits are staged for review' };
+        }
+        if (SENSITIVE_TOOLS.includes(toolName)) {
+            return { mode: 'ask', reason: `${toolName} asks by default` };
+        }
+        return { mode: 'allow', reason: `${toolName} is allowed by default` };
+    }
+
+    private decideCommand(policy: ToolPolicy, command: string, toolDecision: PermissionDecision): PermissionDecision {
+        const decisions = splitCommand(command).map((segment): PermissionDecision => {
+            const matches = policy.commands.filter(rule => rule.regex.test(segment));
+            if (matches.length === 0) {
+                return toolDecision;
+            }
+            const rule = strictestEntry(matches);
+            return { mode: rule.mode, reason: `"${segment}" matches "${rule.pattern}" (${rule.mode}) in ${rule.source}` };
+        });
+        if (decisions.length === 0) {
+            return toolDecision;
+        }
+
+        const decision = strictestEntry(decisions);
+        const uncheckedSyntax = findUncheckedSyntax(command);
+        if (decision.mode === 'allow' && uncheckedSyntax) {
+            return { mode: 'ask', reason: uncheckedSyntax };
+        }
+        return decision;
+    }
+
+    private decidePath(
+        policy: ToolPolicy,
+        toolName: string,
+        filePath: string,
+        workspaceFolder: string,
+        toolDecision: PermissionDecision
+    ): PermissionDecision {
+        // Matched as written and with links followed, so neither an absolute
+        // path nor a link around a rule's directory escapes it
+        let relativePaths: string[];
+        try {
+            relativePaths = getWorkspaceRelativePaths(filePath, workspaceFolder);
+        } catch {
+            // Built-in tools never get here with such a path; MCP tools interpret their own
+            return toolDecision;
+        }
+
+        const matches = policy.paths.flatMap(rule => {
+            if (rule.tools.length > 0 && !rule.tools.includes(toolName)) {
+                return [];
+            }
+            const matched = relativePaths.find(relativePath => rule.regex.test(relativePath));
+            return matched === undefined ? [] : [{ ...rule, matched }];
+        });
+        if (matches.length === 0) {
+            return toolDecision;
+        }
+        const rule = strictestEntry(matches);
+        return { mode: rule.mode, reason: `${rule.matched} matches "${rule.glob}" (${rule.mode}) in ${rule.source}` };
+    }
+
+    /**
+     * The settings policy combined with the workspace file's
+     */
+    private getPolicy(workspaceFolder: string): ToolPolicy {
+        const fromSettings = parsePolicy(vscode.workspace.getConfiguration('rubin').get<unknown>('toolPermissions'), SETTING, true);
+        const fromWorkspace = this.getWorkspacePolicy(workspaceFolder);
+        if (!fromWorkspace) {
+            return fromSettings;
+        }
+
+        const merge = (a: Map<string, ModeEntry[]>, b: Map<string, ModeEntry[]>) => {
+            const merged = new Map(a);
+            for (const [key, entries] of b) {
+                merged.set(key, [...(merged.get(key) ?? []), ...entries]);
+            }
+            return merged;
+        };
+        return {
+            tools: merge(fromSettings.tools, fromWorkspace.tools),
+            commands: [...fromSettings.commands, ...fromWorkspace.commands],
+            paths: [...fromSettings.paths, ...fromWorkspace.paths],
+            mcpServers: merge(fromSettings.mcpServers, fromWorkspace.mcpServers),
+        };
+    }
+
+    /**
+     * `.rubin/permissions.json`, re-read when it changes or the workspace is
+     * trusted
+     */
+    private getWorkspacePolicy(workspaceFolder: string): ToolPolicy | null {
+        const file = path.join(workspaceFolder, WORKSPACE_FILE);
+        let mtimeMs: number;
+        try {
+            mtimeMs = fs.statSync(file).mtimeMs;
+        } catch {
+            this.workspacePolicy = null;
+            return null;
+        }
+        const isTrusted = vscode.workspace.isTrusted;
+        const cached = this.workspacePolicy;
+        if (cached?.file === file && cached.mtimeMs === mtimeMs && cached.isTrusted === isTrusted) {
+            return cached.policy;
+        }
+
+        let value: unknown;
+        try {
+            value = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        } catch (error) {
+            reportProblem(`${WORKSPACE_FILE} is not valid JSON (${error instanceof Error ? error.message : 'Unknown error'})`);
+            value = undefined;
+        }
+        const policy = parsePolicy(value, WORKSPACE_FILE, isTrusted);
+        this.workspacePolicy = { file, mtimeMs, isTrusted, policy };
+        return policy;
+    }
+}
+
+/**
+ * Keep the valid entries of a policy, logging the rest. Allow entries are
+ * dropped unless `canAllow` is set.
+ */
+function parsePolicy(value: unknown, source: string, canAllow: boolean): ToolPolicy {
+    const policy: ToolPolicy = { tools: new Map(), commands: [], paths: [], mcpServers: new Map() };
+    if (!isPlainObject(value)) {
+        if (value !== undefined && value !== null) {
+            reportProblem(`${source} must be an object`);
+        }
+        return policy;
+    }
+
+    const parseMode = (mode: unknown, where: string): PermissionMode | null => {
+        if (!MODES.includes(mode as PermissionMode)) {
+            reportProblem(`${where} must be "allow", "ask" or "deny"`);
+            return null;
+        }
+        if (mode === 'allow' && !canAllow) {
+            reportProblem(`${where}: "allow" is ignored until the workspace is trusted`);
+            return null;
+        }
+        return mode as PermissionMode;
+    };
+    const parseModes = (entries: unknown, where: string, target: Map<string, ModeEntry[]>) => {
+        if (entries === undefined) {
+            return;
+        }
+        if (!isPlainObject(entries)) {
+            reportProblem(`${where} must be an object`);
+            return;
+        }
+        for (const [key, entry] of Object.entries(entries)) {
+            const mode = parseMode(entry, `${where}.${key}`);
+            if (mode) {
+                target.set(key, [{ mode, source }]);
+            }
+        }
+    };
+    const parseRules = (rules: unknown, where: string): Record<string, unknown>[] => {
+        if (rules === undefined) {
+            return [];
+        }
+        if (!Array.isArray(rules)) {
+            reportProblem(`${where} must be an array`);
+            return [];
+        }
+        return rules.filter((rule, index) => {
+            const valid = isPlainObject(rule);
+            if (!valid) {
+                reportProblem(`${where}[${index}] must be an object`);
+            }
+            return valid;
+        });
+    };
+
+    for (const key of Object.keys(value)) {
+        if (!['tools', 'commands', 'paths', 'mcpServers'].includes(key)) {
+            reportProblem(`${source}: unknown entry "${key}"`);
+        }
+    }
+    parseModes(value.tools, `${source}.tools`, policy.tools);
+    parseModes(value.mcpServers, `${source}.mcpServers`, policy.mcpServers);
+
+    parseRules(value.commands, `${source}.commands`).forEach((rule, index) => {
+        const where = `${source}.commands[${index}]`;
+        if (typeof rule.pattern !== 'string' || !rule.pattern.trim()) {
+            reportProblem(`${where}.pattern must be a non-empty string`);
+            return;
+        }
+        const mode = parseMode(rule.mode, `${where}.mode`);
+        if (mode) {
+            policy.commands.push({ pattern: rule.pattern, mode, source, regex: commandPatternToRegExp(rule.pattern) });
+        }
+    });
+
+    parseRules(value.paths, `${source}.paths`).forEach((rule, index) => {
+        const where = `${source}.paths[${index}]`;
+        if (typeof rule.glob !== 'string' || !rule.glob.trim()) {
+            reportProblem(`${where}.glob must be a non-empty string`);
+            return;
+        }
+        const tools = rule.tools ?? [];
+        if (!Array.isArray(tools) || !tools.every(tool => typeof tool === 'string')) {
+            reportProblem(`${where}.tools must be an array of tool names`);
+            return;
+        }
+        const mode = parseMode(rule.mode, `${where}.mode`);
+        if (mode) {
+            policy.paths.push({ glob: rule.glob, tools, mode, source, regex: globToRegExp(rule.glob) });
+        }
+    });
+
+    return policy;
+}
+
+function reportProblem(problem: string): void {
+    if (!reportedProblems.has(problem)) {
+        reportedProblems.add(problem);
+        logger.warn(`Ignoring invalid tool permission - ${problem}`);
+    }
+}
+
+let permissionsInstance: ToolPermissions | null = null;
+
+export function getToolPermissions(): ToolPermissions {
+    if (!permissionsInstance) {
+        permissionsInstance = new ToolPermissions();
+    }
+    return permissionsInstance;
+}
+
+export function registerToolPermissionCommands(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('rubin.resetSessionPermissions', () => {
+            const count = getToolPermissions().resetSession();
+            vscode.window.showInformationMessage(
+                count > 0
+                    ? `The agent will ask again for the ${count} tool${count === 1 ? '' : 's'} allowed this session`
+                    : 'No tools were allowed for this session'
+            );
+        })
+    );
+}
@@ -1,12 +1,31 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { getConfig, setModel } from './config';
-import { getOllamaClient } from './ollamaClient';
+import * as crypto from 'crypto';
+import { getConfigForRole, setModel, LocalCopilotConfig, ModelRole, MODEL_ROLE_LABELS } from './config';
+import { ChatMessage } from './ollamaClient';
+import { getLLMClient, getProviderLabel } from './llmProvider';
+import { getAllAvailableModels } from './endpoints';
 import { getAgentProvider, AgentStep } from './agentProvider';
 import { ContextManager } from './contextManager';
 import { parseSlashCommand, buildCommandContext } from './slashCommands';
 import { processMessage } from './participants';
-import { CHAT_SYSTEM_PROMPT, generateFollowUpSuggestions } from './prompts';
+import { buildFollowUpMessages, CHAT_SYSTEM_PROMPT, FOLLOWUP_SCHEMA, generateFollowUpSuggestions } from './prompts';
+import { budgetPrompt, formatBudgetReport, PromptSection } from './promptBudget';
+import { LLMRequestError } from './httpTransport';
+import { logger } from './logger';
+import { getCheckpointManager, TaskCheckpoint } from './checkpoints';
+import { getStagingArea, resolveStagedChanges } from './editStaging';
+
+/**
+ * A piece of the chat prompt; sections with a role are sent as their own
+ * message, the rest are joined into the system prompt
+ */
+type ChatSection = PromptSection & { role?: 'user' | 'assistant' };
+
+// Latest messages that are kept ahead of editor context
+const RECENT_HISTORY_MESSAGES = 2;
+// Room left in the context window for the reply (chatStream's num_predict)
+const CHAT_RESPONSE_TOKENS = 2048;
 
 export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'rubin.unifiedView';
@@ -15,6 +34,8 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
     private _attachedFiles: Array<{ name: string; content: string; language: string }> = [];
     private _currentMode: 'chat' | 'agent' = 'chat';
     private _contextManager: ContextManager;
+    private _followUpRequest: AbortController | null = null; // Cancelled by the next message
+    private _clearedTaskIds = new Set<string>(); // Agent tasks whose changes were cleared from view
 
     constructor(private readonly _extensionUri: vscode.Uri) {
         this._contextManager = new ContextManager();
@@ -33,7 +54,7 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
             localResourceRoots: [this._extensionUri]
         };
 
-        webviewView.webview.html = this._getHtmlForWebview();
+        webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
         // Handle messages from the webview
         webviewView.webview.onDidReceiveMessage(async (data) => {
@@ -48,11 +69,15 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
                     break;
                 case 'changeMode':
                     this._currentMode = data.mode;
+                    // Each mode has its own model, so refresh the dropdown
+                    await this._loadModels();
                     break;
-                case 'changeModel':
-                    await setModel(data.model);
-                    vscode.window.showInformationMessage(`Model changed to ${data.model}`);
+                case 'changeModel': {
+                    const role = this._getModelRole();
+                    await setModel(data.model, role);
+                    vscode.window.showInformationMessage(`${MODEL_ROLE_LABELS[role]} model changed to ${data.model}`);
                     break;
+                }
                 case 'getModels':
                     await this._loadModels();
                     break;
@@ -65,23 +90,50 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
                     break;
                 case 'clearChat':
                     this._conversationHistory = [];
+                    this._followUpRequest?.abort();
                     this._attachedFiles = [];
+                    getCheckpointManager().getTasks().forEach(task => this._clearedTaskIds.add(task.id));
                     getAgentProvider().clearHistory();
                     this._postMessage({ type: 'cleared' });
+                    // Staged edits still wait for review after the chat is cleared
+                    this._postStagedChanges();
                     break;
                 case 'stopAgent':
                     getAgentProvider().stop();
                     this._postMessage({ type: 'agentStopped' });
                     break;
                 case 'approveAction':
-                    getAgentProvider().approveRequest();
+                    getAgentProvider().approveRequest(data.forSession === true);
                     break;
                 case 'denyAction':
                     getAgentProvider().rejectRequest();
                     break;
+                case 'revertFile':
+                    await this._revertTaskFile(data.taskId, data.path);
+                    break;
+                case 'revertTask':
+                    await this._revertTask(data.taskId);
+                    break;
+                case 'reviewStaged':
+                    await vscode.commands.executeCommand('rubin.reviewStagedChanges', data.fullPath);
+                    break;
+                case 'acceptStaged':
+                    resolveStagedChanges(true, data.fullPath);
+                    break;
+                case 'rejectStaged':
+                    resolveStagedChanges(false, data.fullPath);
+                    break;
             }
         });
 
+        // Keep each task's change list up to date as the agent works and files are reverted
+        const checkpointListener = getCheckpointManager().onDidChange(task => this._postTaskChanges(task));
+        const stagingListener = getStagingArea().onDidChange(() => this._postStagedChanges());
+        webviewView.onDidDispose(() => {
+            checkpointListener.dispose();
+            stagingListener.dispose();
+        });
+
         // Set up agent event callback
         getAgentProvider().setEventCallback((step: AgentStep) => {
             this._postMessage({
@@ -122,16 +174,104 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
                 files: this._attachedFiles.map(f => f.name)
             });
         }
+        // Restore agent task change lists
+        for (const task of getCheckpointManager().getTasks()) {
+            this._postTaskChanges(task);
+        }
+        this._postStagedChanges();
+    }
+
+    private _postStagedChanges() {
+        this._postMessage({ type: 'stagedChanges', files: getStagingArea().getSummaries() });
+    }
+
+    private _postTaskChanges(task: TaskCheckpoint) {
+        const changes = task.getChanges();
+        if (changes.length === 0 || this._clearedTaskIds.has(task.id)) {
+            return;
+        }
+        this._postMessage({ type: 'taskChanges', task: { id: task.id, title: task.title, changes } });
+    }
+
+    private async _revertTaskFile(taskId: string, filePath: string) {
+        const task = getCheckpointManager().getTask(taskId);
+        if (!task || !(await this._confirmRevert(task, [filePath]))) {
+            return;
+        }
+        try {
+            task.revertFile(filePath);
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Failed to revert ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    private async _revertTask(taskId: string) {
+        const task = getCheckpointManager().getTask(taskId);
+        if (!task) {
+            return;
+        }
+        const changes = task.getChanges().filter(change => !change.reverted);
+        const paths = changes.filter(change => change.revertible).map(change => change.path);
+        if (paths.length === 0) {
+            const tooLarge = changes.map(change => change.path);
+            if (tooLarge.length > 0) {
+                vscode.window.showWarningMessage(`Could not revert ${tooLarge.join(', ')}: too large to keep a copy of before the agent changed them.`);
+            }
+            return;
+        }
+        if (!(await this._confirmRevert(task, paths))) {
+            return;
+        }
+
+        const { failed, tooLarge } = task.revertAll();
+        const problems: string[] = [];
+        if (failed.length > 0) {
+            problems.push(`Could not revert ${failed.join(', ')}. See the Rubin log for details.`);
+        }
+        if (tooLarge.length > 0) {
+            problems.push(`Could not revert ${tooLarge.join(', ')}: too large to keep a copy of before the agent changed them.`);
+        }
+        if (problems.length > 0) {
+            const reverted = paths.length - failed.length;
+            const summary = reverted > 0 ? `Reverted ${reverted} file${reverted === 1 ? '' : 's'}. ` : '';
+            vscode.window.showErrorMessage(summary + problems.join(' '));
+        } else {
+            vscode.window.showInformationMessage(`Reverted ${paths.length} file${paths.length === 1 ? '' : 's'} changed by the agent`);
+        }
+    }
+
+    /**
+     * Reverting goes back to the state before this task, which also undoes
+     * later tasks' changes to the same files; ask first when there are any
+     */
+    private async _confirmRevert(task: TaskCheckpoint, paths: string[]): Promise<boolean> {
+        const later = getCheckpointManager().getLaterChanges(task, paths);
+        if (later.length === 0) {
+            return true;
+        }
+        const choice = await vscode.window.showWarningMessage(
+            `A later agent task also changed ${later.join(', ')}. Reverting undoes those changes too.`,
+            { modal: true },
+            'Revert'
+        );
+        return choice === 'Revert';
+    }
+
+    private _getModelRole(): ModelRole {
+        return this._currentMode === 'agent' ? 'agent' : 'chat';
     }
 
     private async _loadModels() {
-        const config = getConfig();
-        const client = getOllamaClient(config.serverUrl);
-        const models = await client.getAvailableModels();
+        const role = this._getModelRole();
+        const config = getConfigForRole(role);
+        const models = await getAllAvailableModels(config);
         this._postMessage({
             type: 'modelsLoaded',
             models: models,
-            currentModel: config.model
+            currentModel: config.model,
+            roleLabel: MODEL_ROLE_LABELS[role]
         });
     }
 
@@ -160,6 +300,8 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
     }
 
     private async _handleChatMessage(message: string) {
+        this._followUpRequest?.abort();
+
         // Check for slash commands
         const { command, args } = parseSlashCommand(message);
         
@@ -182,7 +324,6 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
 
         // Process @mentions to gather additional context
         const mentionResult = await processMessage(message);
-        const mentionContext = mentionResult.contextBlocks.join('\n\n');
         processedMessage = slashCommandContext || mentionResult.cleanMessage;
 
         // Add user message to history
@@ -191,34 +332,17 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
         this._postMessage({ type: 'typing', isTyping: true });
 
         try {
-            const config = getConfig();
-            const client = getOllamaClient(config.serverUrl);
-
-            // 1. Gather comprehensive context
-            const contextItems = await this._contextManager.getContext();
-            let context = this._contextManager.formatContextForPrompt(contextItems);
-
-            // 2. Add @mention context
-            if (mentionContext) {
-                context = mentionContext + '\n\n' + context;
-            }
+            const config = getConfigForRole('chat');
+            const client = getLLMClient(config);
 
-            // 3. Add manually attached files (if they aren't already covered)
-            for (const file of this._attachedFiles) {
-                if (!context.includes(`Filename: ${file.name}`)) {
-                    context += `\n\n### Attached File: ${file.name}\n\`\`\`${file.language}\n${file.content}\n\`\`\``;
-                }
-            }
+            const request = await this._buildChatRequest(processedMessage, mentionResult.contextBlocks, config);
+            const hasCodeContext = request.hasCodeContext || message.includes('code');
 
-            // Use streaming for real-time response
-            const prompt = this._buildChatPrompt(processedMessage, context);
-            const hasCodeContext = context.includes('```') || message.includes('code');
-            
             // Create a message placeholder for streaming
             this._postMessage({ type: 'streamStart' });
 
-            await client.generateChatStream(
-                prompt,
+            await client.chatStream(
+                request.messages,
                 config,
                 {
                     onToken: (token) => {
@@ -228,38 +352,39 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
                         this._conversationHistory.push({ role: 'assistant', content: response });
                         this._postMessage({ type: 'streamEnd' });
                         
-                        // Generate follow-up suggestions
-                        const followUps = generateFollowUpSuggestions(message, response, hasCodeContext);
-                        if (followUps.length > 0) {
-                            this._postMessage({ type: 'followUpSuggestions', suggestions: followUps });
-                        }
+                        void this._suggestFollowUps(message, response, hasCodeContext, config);
                     },
                     onError: (error) => {
                         this._postMessage({
                             type: 'error',
-                            content: `Streaming error: ${error.message}`
+                            content: error instanceof LLMRequestError ? error.message : `Streaming error: ${error.message}`
                         });
                     }
-                }
+                },
+                { num_ctx: request.numCtx }
             );
 
         } catch (error) {
+            // The server explained the failure (already shown through onError);
+            // asking again without streaming would fail the same way
+            if (error instanceof LLMRequestError) {
+                return;
+            }
+
             // Fall back to non-streaming if streaming fails
             try {
-                const config = getConfig();
-                const client = getOllamaClient(config.serverUrl);
-                const contextItems = await this._contextManager.getContext();
-                const context = this._contextManager.formatContextForPrompt(contextItems);
-                const prompt = this._buildChatPrompt(processedMessage, context);
+                const config = getConfigForRole('chat');
+                const client = getLLMClient(config);
+                const request = await this._buildChatRequest(processedMessage, mentionResult.contextBlocks, config);
                 
-                const response = await client.generateChat(prompt, config);
+                const response = await client.chat(request.messages, config, { num_ctx: request.numCtx });
                 if (response) {
                     this._conversationHistory.push({ role: 'assistant', content: response });
                     this._postMessage({ type: 'assistantMessage', content: response });
                 } else {
                     this._postMessage({
                         type: 'error',
-                        content: 'Failed to get response. Check if Ollama is running.'
+                        content: `Failed to get response. Check if ${getProviderLabel(config.provider)} is running.`
                     });
                 }
             } catch (fallbackError) {
@@ -274,6 +399,43 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
     }
 
 
+    /**
+     * Ask the chat model for follow-ups to its answer, falling back to canned
+     * suggestions when it can't give usable ones
+     */
+    private async _suggestFollowUps(
+        message: string,
+        response: string,
+        hasCodeContext: boolean,
+        config: LocalCopilotConfig
+    ): Promise<void> {
+        const controller = new AbortController();
+        this._followUpRequest = controller;
+
+        let suggestions: string[] = [];
+        try {
+            const reply = await getLLMClient(config).chatJson<{ suggestions: string[] }>(
+                buildFollowUpMessages(message, response),
+                FOLLOWUP_SCHEMA,
+                config,
+                { num_predict: 200, temperature: 0.5 },
+                controller.signal
+            );
+            suggestions = reply?.suggestions ?? [];
+        } catch (error) {
+            logger.debug(`Model follow-up suggestions failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        if (controller.signal.aborted) {
+            return;
+        }
+        this._followUpRequest = null;
+        if (suggestions.length === 0) {
+            suggestions = generateFollowUpSuggestions(message, response, hasCodeContext);
+        }
+        this._postMessage({ type: 'followUpSuggestions', suggestions });
+    }
+
     private async _handleAgentMessage(message: string) {
         this._postMessage({ type: 'userMessage', content: message });
         this._postMessage({ type: 'agentStarted' });
@@ -299,7 +461,7 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
                 }
             }
 
-            const result = await agent.runTask(fullMessage);
+            const result = await agent.runTask(fullMessage, message);
             this._postMessage({ type: 'assistantMessage', content: result });
         } catch (error) {
             this._postMessage({
@@ -311,26 +473,86 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private _buildChatPrompt(message: string, context: string): string {
-        let prompt = CHAT_SYSTEM_PROMPT + '\n\n';
+    /**
+     * Pack the system prompt, history, @mention context, attached files and
+     * editor context into the chat model's context window, most important
+     * first, and tell the user when something had to be left out
+     */
+    private async _buildChatRequest(
+        message: string,
+        mentionBlocks: string[],
+        config: LocalCopilotConfig
+    ): Promise<{ messages: ChatMessage[]; numCtx: number; hasCodeContext: boolean }> {
+        const contextItems = await this._contextManager.getContext();
+        const sections: ChatSection[] = [
+            { label: 'System prompt', content: CHAT_SYSTEM_PROMPT, priority: 100, required: true },
+        ];
+
+        for (const block of mentionBlocks) {
+            const title = block.split('\n', 1)[0].replace(/^#+\s*/, '');
+            sections.push({ label: title, content: block, priority: 80, truncatable: true });
+        }
+
+        // Attached files the editor context doesn't already cover
+        for (const file of this._attachedFiles) {
+            if (contextItems.some(item => item.title === `Active File: ${file.name}` || item.title === `Open File: ${file.name}`)) {
+                continue;
+            }
+            sections.push({
+                label: `Attached File: ${file.name}`,
+                content: `### Attached File: ${file.name}\n\`\`\`${file.language}\n${file.content}\n\`\`\``,
+                priority: 70,
+                truncatable: true,
+            });
+        }
 
-        if (context) {
-            prompt += '## Current Context\n\n' + context + '\n\n';
+        for (const item of contextItems) {
+            sections.push({
+                label: item.title,
+                content: this._contextManager.formatContextItem(item),
+                priority: 50 + item.priority,
+                truncatable: true,
+            });
         }
 
-        // Add conversation history for continuity
-        prompt += '## Conversation\n\n';
+        // The current message was already pushed to history, so leave it out
+        // and send the processed (slash command / @mention expanded) version.
+        // The latest exchange outranks context; older turns come last.
+        const history = this._conversationHistory.slice(0, -1);
+        history.forEach((turn, index) => {
+            const age = history.length - 1 - index;
+            sections.push({
+                label: `${turn.role === 'user' ? 'User' : 'Assistant'} message (${age + 1} back)`,
+                content: turn.content,
+                priority: age < RECENT_HISTORY_MESSAGES ? 90 - age : 20 - age,
+                group: 'history',
+                role: turn.role,
+            });
+        });
 
-        for (const msg of this._conversationHistory.slice(-6)) {
-            if (msg.role === 'user') {
-                prompt += `User: ${msg.content}\n\n`;
-            } else {
-                prompt += `Assistant: ${msg.content}\n\n`;
-            }
+        sections.push({ label: 'Current message', content: message, priority: 100, required: true, role: 'user' });
+
+        const budgeted = await budgetPrompt(sections, config, CHAT_RESPONSE_TOKENS);
+        const { dropped, included } = budgeted.report;
+        if (dropped.length > 0 || included.some(entry => entry.truncated)) {
+            this._postMessage({ type: 'contextReport', content: `Context: ${formatBudgetReport(budgeted.report)}` });
         }
 
-        prompt += `User: ${message}\n\nAssistant:`;
-        return prompt;
+        const [systemPrompt, ...context] = budgeted.sections.filter(section => !section.role).map(s => s.content);
+        const system = context.length > 0
+            ? `${systemPrompt}\n\n## Current Context\n\n${context.join('\n\n')}`
+            : systemPrompt;
+
+        return {
+            messages: [
+                { role: 'system', content: system },
+                ...budgeted.sections.flatMap(section =>
+                    section.role ? [{ role: section.role, content: section.content }] : []
+                ),
+            ],
+            numCtx: budgeted.numCtx,
+            hasCodeContext: context.some(block => block.includes('```')),
+        };
     }
 
     private _postMessage(message: unknown) {
@@ -359,11 +581,14 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
             message: message
         });
     }
-    private _getHtmlForWebview(): string {
+    private _getHtmlForWebview(webview: vscode.Webview): string {
+        // Only the script carrying this nonce runs, so markup that slips into the page can't execute
+        const nonce = crypto.randomBytes(16).toString('base64');
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Rubin</title>
     <style>
@@ -638,6 +863,11 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
             background: var(--vscode-toolbar-hoverBackground);
         }
         .mode-select { font-weight: 600; }
+        .model-role {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-left: 2px;
+        }
         
         /* Send button */
         .send-btn {
@@ -728,6 +958,11 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
             gap: 8px; 
             color: var(--vscode-charts-yellow);
         }
+        .approval-reason {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 8px;
+        }
         .approval-code { 
             background: var(--vscode-textCodeBlock-background);
             padding: 10px 12px;
@@ -759,6 +994,49 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
         .approved .approval-actions { color: var(--vscode-charts-green); }
         .denied .approval-actions { color: var(--vscode-errorForeground); }
         
+        /* Files changed by an agent task */
+        .task-changes {
+            background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 8px;
+            padding: 10px 12px;
+            margin: 12px 0;
+            font-size: 12px;
+        }
+        .task-changes-header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            margin-bottom: 6px;
+            font-weight: 600;
+        }
+        .task-changes-title {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .task-change {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 3px 0;
+        }
+        .task-change.reverted .change-path { text-decoration: line-through; opacity: 0.6; }
+        .change-kind { font-size: 11px; min-width: 56px; }
+        .change-created { color: var(--vscode-charts-green); }
+        .change-modified { color: var(--vscode-charts-yellow); }
+        .change-deleted { color: var(--vscode-errorForeground); }
+        .change-path {
+            flex: 1;
+            font-family: var(--vscode-editor-font-family);
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .task-changes .btn { padding: 2px 8px; font-size: 11px; }
+        .change-note { color: var(--vscode-descriptionForeground); font-size: 11px; }
+
         /* Follow-up suggestions */
         .follow-ups {
             display: flex;
@@ -782,6 +1060,11 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
         }
         
         /* Error message */
+        .context-note {
+            color: var(--vscode-descriptionForeground);
+            font-size: 11px;
+            margin: -8px 0 12px 0;
+        }
         .error-msg {
             color: var(--vscode-errorForeground);
             background: color-mix(in srgb, var(--vscode-errorForeground) 10%, transparent);
@@ -806,7 +1089,7 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
         <div class="welcome" id="welcome">
             <div class="welcome-icon">💬</div>
             <h2>Build with Rubin</h2>
-            <p>AI responses may be inaccurate.<br><span class="welcome-link" onclick="showTips()">Tips for better results</span></p>
+            <p>AI responses may be inaccurate.<br><span class="welcome-link" id="tipsLink">Tips for better results</span></p>
         </div>
         <div class="typing" id="typing">
             <div class="typing-dots">
@@ -822,7 +1105,7 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
         <div class="agent-status" id="agentStatus">
             <div class="spinner"></div>
             <span>Agent is working...</span>
-            <button class="stop-btn" onclick="stopAgent()">Stop</button>
+            <button class="stop-btn" id="stopBtn">Stop</button>
         </div>
         
         <div class="attached-files" id="attachedFiles"></div>
@@ -830,22 +1113,23 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
         <div class="input-box">
             <textarea id="input" placeholder="Describe what to build next..." rows="1"></textarea>
             <div class="input-toolbar">
-                <button class="toolbar-btn" onclick="attachFile()" title="Attach file">📎</button>
+                <button class="toolbar-btn" id="attachBtn" title="Attach file">📎</button>
                 <div class="toolbar-divider"></div>
-                <select class="mode-select" id="modeSelect" onchange="changeMode(this.value)">
+                <select class="mode-select" id="modeSelect">
                     <option value="chat">💬 Chat</option>
                     <option value="agent">🤖 Agent</option>
                 </select>
-                <select class="model-select" id="modelSelect" onchange="changeModel(this.value)">
+                <span class="model-role" id="modelRole"></span>
+                <select class="model-select" id="modelSelect">
                     <option>Loading...</option>
                 </select>
                 <div class="toolbar-spacer"></div>
-                <button class="send-btn" id="sendBtn" onclick="handleSendClick()" title="Send">▶</button>
+                <button class="send-btn" id="sendBtn" title="Send">▶</button>
             </div>
         </div>
     </div>
 
-    <script>
+    <script nonce="${nonce}">
         const vscode = acquireVsCodeApi();
         const messages = document.getElementById('messages');
         const input = document.getElementById('input');
@@ -855,9 +1139,17 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
         const agentStatus = document.getElementById('agentStatus');
         const attachedFiles = document.getElementById('attachedFiles');
 
-        function approveAction(id) {
-            vscode.postMessage({ type: 'approveAction' });
-            markProcessed(id, true);
+        // Handlers are attached here: the content security policy blocks inline ones
+        document.getElementById('tipsLink').addEventListener('click', () => showTips());
+        document.getElementById('stopBtn').addEventListener('click', () => stopAgent());
+        document.getElementById('attachBtn').addEventListener('click', () => attachFile());
+        document.getElementById('modeSelect').addEventListener('change', (e) => changeMode(e.target.value));
+        document.getElementById('modelSelect').addEventListener('change', (e) => changeModel(e.target.value));
+        sendBtn.addEventListener('click', () => handleSendClick());
+
+        function approveAction(id, forSession) {
+            vscode.postMessage({ type: 'approveAction', forSession: forSession === true });
+            markProcessed(id, true, forSession === true);
         }
 
         function denyAction(id) {
@@ -865,12 +1157,12 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
             markProcessed(id, false);
         }
 
-        function markProcessed(id, approved) {
+        function markProcessed(id, approved, forSession) {
             const el = document.getElementById(id);
             if (el) {
                 el.classList.add(approved ? 'approved' : 'denied');
                 const actions = el.querySelector('.approval-actions');
-                actions.innerHTML = approved ? '✅ Approved' : '❌ Denied';
+                actions.textContent = approved ? (forSession ? '✅ Approved for this session' : '✅ Approved') : '❌ Denied';
             }
         }
 
@@ -880,26 +1172,62 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
             const id = 'approval-' + Date.now();
             div.id = id;
             div.className = 'approval-dialog message';
-            
-            let details = '';
-            if (step.toolName === 'runCommand') {
-                details = step.toolParams.command;
-            } else if (step.toolName === 'writeFile') {
-                details = \`File: \${step.toolParams.filePath}\\n\\n\${step.toolParams.content.substring(0, 100)}\${step.toolParams.content.length > 100 ? '...' : ''}\`;
+
+            // Tool names and parameters come from the model and MCP servers, so they are only ever set as text
+            const header = document.createElement('h4');
+            header.textContent = '⚠️ Approval Required: ' + step.toolName;
+            div.appendChild(header);
+
+            if (step.permissionReason) {
+                const reason = document.createElement('div');
+                reason.className = 'approval-reason';
+                reason.textContent = 'Policy: ' + step.permissionReason;
+                div.appendChild(reason);
             }
 
-            div.innerHTML = \`
-                <h4>⚠️ Approval Required: \${step.toolName}</h4>
-                <div class="approval-code">\${escapeHtml(details)}</div>
-                <div class="approval-actions">
-                    <button class="btn btn-secondary" onclick="denyAction('\${id}')">Deny</button>
-                    <button class="btn btn-primary" onclick="approveAction('\${id}')">Allow</button>
-                </div>
-            \`;
-            
+            const details = formatToolParams(step.toolParams);
+            if (details) {
+                const code = document.createElement('div');
+                code.className = 'approval-code';
+                code.textContent = details;
+                div.appendChild(code);
+            }
+
+            const actions = document.createElement('div');
+            actions.className = 'approval-actions';
+            actions.appendChild(approvalButton('Deny', 'btn-secondary', () => denyAction(id)));
+            if (step.sessionAllowLabel) {
+                const sessionAllow = approvalButton('Allow for session', 'btn-secondary', () => approveAction(id, true));
+                sessionAllow.title = 'Allow ' + step.sessionAllowLabel + ' without asking until VS Code restarts';
+                actions.appendChild(sessionAllow);
+            }
+            actions.appendChild(approvalButton('Allow', 'btn-primary', () => approveAction(id)));
+            div.appendChild(actions);
+
             messages.insertBefore(div, typing);
             messages.scrollTop = messages.scrollHeight;
         }
+
+        function approvalButton(label, style, onClick) {
+            const button = document.createElement('button');
+            button.className = 'btn ' + style;
+            button.textContent = label;
+            button.addEventListener('click', onClick);
+            return button;
+        }
+
+        /**
+         * Every parameter of a tool call, long values shortened
+         */
+        function formatToolParams(params) {
+            return Object.entries(params || {}).map(([key, value]) => {
+                let text = typeof value === 'string' ? value : JSON.stringify(value);
+                if (text.length > 300) {
+                    text = text.substring(0, 300) + '...';
+                }
+                return key + ': ' + text;
+            }).join('\\n');
+        }
         
         let isWaiting = false;
         let currentMode = 'chat';
@@ -1048,9 +1376,13 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
             
             const container = document.createElement('div');
             container.className = 'follow-ups';
-            container.innerHTML = uniqueSuggestions.map(s => 
-                '<button class="follow-up-btn" onclick="useFollowUp(\\x27' + escapeHtml(s).replace(/'/g, "\\\\'") + '\\x27)">' + escapeHtml(s) + '</button>'
-            ).join('');
+            for (const suggestion of uniqueSuggestions) {
+                const button = document.createElement('button');
+                button.className = 'follow-up-btn';
+                button.textContent = suggestion;
+                button.addEventListener('click', () => useFollowUp(suggestion));
+                container.appendChild(button);
+            }
             messages.insertBefore(container, typing);
             messages.scrollTop = messages.scrollHeight;
         }
@@ -1082,7 +1414,7 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
                 if (lastChip) {
                     lastChip.className = 'agent-step step-tool_result' + (step.result?.success ? '' : ' error');
                     const icon = step.result?.success ? '✓' : '✗';
-                    lastChip.innerHTML = icon + ' ' + (step.toolName || 'action');
+                    lastChip.textContent = icon + ' ' + (step.toolName || 'action');
                     lastChip.title = step.result?.success 
                         ? (step.result.output || 'Success').substring(0, 200)
                         : (step.result?.error || 'Failed');
@@ -1095,7 +1427,7 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
             
             const icon = step.type === 'tool_call' ? '⏳' : '✓';
             const label = step.toolName || 'action';
-            chip.innerHTML = icon + ' ' + label;
+            chip.textContent = icon + ' ' + label;
             
             // Show params on hover for tool calls
             if (step.type === 'tool_call' && step.toolParams) {
@@ -1109,6 +1441,118 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
             messages.scrollTop = messages.scrollHeight;
         }
 
+        function updateTaskChanges(task) {
+            welcome.style.display = 'none';
+            let card = document.getElementById('changes-' + task.id);
+            if (!card) {
+                card = document.createElement('div');
+                card.id = 'changes-' + task.id;
+                card.className = 'task-changes';
+                messages.insertBefore(card, typing);
+            }
+            card.innerHTML = '';
+
+            const header = document.createElement('div');
+            header.className = 'task-changes-header';
+            const title = document.createElement('span');
+            title.className = 'task-changes-title';
+            title.textContent = '📝 ' + task.title;
+            title.title = task.title;
+            header.appendChild(title);
+            if (task.changes.some(c => !c.reverted && c.revertible)) {
+                header.appendChild(actionButton('Revert task', { type: 'revertTask', taskId: task.id }));
+            }
+            card.appendChild(header);
+
+            const kindLabels = { created: 'Created', modified: 'Modified', deleted: 'Deleted' };
+            for (const change of task.changes) {
+                const row = document.createElement('div');
+                row.className = 'task-change' + (change.reverted ? ' reverted' : '');
+                const kind = document.createElement('span');
+                kind.className = 'change-kind change-' + change.kind;
+                kind.textContent = kindLabels[change.kind];
+                const filePath = document.createElement('span');
+                filePath.className = 'change-path';
+                filePath.textContent = change.path;
+                filePath.title = change.path;
+                row.append(kind, filePath);
+
+                if (change.reverted || !change.revertible) {
+                    const note = document.createElement('span');
+                    note.className = 'change-note';
+                    note.textContent = change.reverted ? 'Reverted' : 'Too large to revert';
+                    row.appendChild(note);
+                } else {
+                    row.appendChild(actionButton('Revert', { type: 'revertFile', taskId: task.id, path: change.path }));
+                }
+                card.appendChild(row);
+            }
+            messages.scrollTop = messages.scrollHeight;
+        }
+
+        function updateStagedChanges(files) {
+            let card = document.getElementById('staged-changes');
+            if (files.length === 0) {
+                if (card) {
+                    card.remove();
+                }
+                return;
+            }
+            welcome.style.display = 'none';
+            if (!card) {
+                card = document.createElement('div');
+                card.id = 'staged-changes';
+                card.className = 'task-changes';
+                messages.insertBefore(card, typing);
+            }
+            card.innerHTML = '';
+
+            const header = document.createElement('div');
+            header.className = 'task-changes-header';
+            const title = document.createElement('span');
+            title.className = 'task-changes-title';
+            title.textContent = '🔍 Staged for review (' + files.length + (files.length === 1 ? ' file)' : ' files)');
+            header.append(
+                title,
+                actionButton('Accept all', { type: 'acceptStaged' }),
+                actionButton('Reject all', { type: 'rejectStaged' })
+            );
+            card.appendChild(header);
+
+            for (const file of files) {
+                const row = document.createElement('div');
+                row.className = 'task-change';
+                const kind = document.createElement('span');
+                kind.className = 'change-kind ' + (file.isNew ? 'change-created' : 'change-modified');
+                kind.textContent = file.isNew ? 'New' : 'Modified';
+                const filePath = document.createElement('span');
+                filePath.className = 'change-path';
+                filePath.textContent = file.path;
+                filePath.title = file.path;
+                const stats = document.createElement('span');
+                stats.className = 'change-note';
+                stats.textContent = '+' + file.added + ' -' + file.removed;
+                row.append(
+                    kind,
+                    filePath,
+                    stats,
+                    actionButton('Review', { type: 'reviewStaged', fullPath: file.fullPath }),
+                    actionButton('Accept', { type: 'acceptStaged', fullPath: file.fullPath }),
+                    actionButton('Reject', { type: 'rejectStaged', fullPath: file.fullPath })
+                );
+                card.appendChild(row);
+            }
+            messages.scrollTop = messages.scrollHeight;
+        }
+
+        function actionButton(label, message) {
+            const button = document.createElement('button');
+            button.className = 'btn btn-secondary';
+            button.textContent = label;
+            button.onclick = () => vscode.postMessage(message);
+            return button;
+        }
+
         function formatContent(content) {
             let f = content.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
             f = f.replace(/\`\`\`(\\w*)\\n([\\s\\S]*?)\`\`\`/g, '<pre><code>$2</code></pre>');
@@ -1117,17 +1561,20 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
             return f;
         }
 
-        function escapeHtml(text) {
-            const div = document.createElement('div');
-            div.textContent = text;
-            return div.innerHTML;
-        }
-
         function updateFiles(files) {
-            attachedFiles.innerHTML = files.map(name => 
-                '<div class="file-chip"><span class="file-icon">📄</span>' + name + 
-                '<button onclick="removeFile(\\x27' + name + '\\x27)" title="Remove">×</button></div>'
-            ).join('');
+            attachedFiles.replaceChildren(...files.map(name => {
+                const chip = document.createElement('div');
+                chip.className = 'file-chip';
+                const icon = document.createElement('span');
+                icon.className = 'file-icon';
+                icon.textContent = '📄';
+                const remove = document.createElement('button');
+                remove.title = 'Remove';
+                remove.textContent = '×';
+                remove.addEventListener('click', () => removeFile(name));
+                chip.append(icon, name, remove);
+                return chip;
+            }));
         }
 
         window.addEventListener('message', (e) => {
@@ -1160,18 +1607,30 @@ export class UnifiedPanelProvider implements vscode.WebviewViewProvider {
                     break;
                 case 'modelsLoaded':
                     const sel = document.getElementById('modelSelect');
-                    sel.innerHTML = data.models.map(m => 
-                        '<option value="' + m + '"' + (m === data.currentModel ? ' selected' : '') + '>' + m + '</option>'
-                    ).join('');
+                    sel.replaceChildren(...data.models.map(m => new Option(m, m, false, m === data.currentModel)));
+                    sel.title = data.roleLabel + ' model';
+                    document.getElementById('modelRole').textContent = data.roleLabel + ':';
                     break;
                 case 'filesUpdated':
                     updateFiles(data.files);
                     break;
+                case 'taskChanges':
+                    updateTaskChanges(data.task);
+                    break;
+                case 'stagedChanges':
+                    updateStagedChanges(data.files);
+                    break;
                 case 'cleared':
-                    messages.querySelectorAll('.message, .agent-step, .error-msg').forEach(el => el.remove());
+                    messages.querySelectorAll('.message, .agent-step, .error-msg, .context-note, .task-changes').forEach(el => el.remove());
                     welcome.style.display = 'block';
                     attachedFiles.innerHTML = '';
                     break;
+                case 'contextReport':
+                    const note = document.createElement('div');
+                    note.className = 'context-note';
+                    note.textContent = data.content;
+                    messages.insertBefore(note, typing);
+                    break;
                 case 'error':
                     const err = document.createElement('div');
                     err.className = 'error-msg';